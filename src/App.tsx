@@ -1,16 +1,65 @@
-import { useState, useEffect } from 'react';
-import { fetchPlayers, Player, addPlayer as apiAddPlayer, CreatePlayerRequest } from './services/playerService';
-import { recordMatch, Match, getRecentMatches, filterMatches, MatchFilter, annulMatch } from './services/matchService';
-import { login, logout, isAuthenticated, LoginCredentials, getTokenRemainingTime, isTokenExpired } from './services/authService';
-import { fetchCharacters, Character } from './services/characterService';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Routes, Route, Navigate, Link, useLocation, useSearchParams } from 'react-router-dom';
+import { fetchPlayers, Player, addPlayer as apiAddPlayer, CreatePlayerRequest, defaultPlayers, getActivePlayers } from './services/playerService';
+import { Match, MatchCharacter, MatchPage, getRecentMatches, formatSetScore, filterMatchesPage, filterAllMatches, MatchFilter, annulMatch, matchFilterFromParams, matchFilterToParams, hasFilterCriteria, DEFAULT_PAGE_SIZE } from './services/matchService';
+import { getQueuedMatches, replayQueuedMatches, retryQueuedMatch, dismissQueuedMatch, QueuedMatch } from './services/matchQueueService';
+import { login, LoginCredentials } from './services/authService';
+import { fetchCharacters, findCharacter, Character, defaultCharacters } from './services/characterService';
+import { fetchSeasons, startSeason, isArchivedSeason, Season } from './services/seasonService';
+import { getErrorMessage, setUnauthorizedHandler } from './services/apiClient';
 import PlayerIcon from './components/common/PlayerIcon';
+import CharacterPicker from './components/common/CharacterPicker';
+import RecordMatchForm from './components/matches/RecordMatchForm';
+import PendingMatchList from './components/matches/PendingMatchList';
+import Pagination from './components/matches/Pagination';
+import MatchImport from './components/matches/MatchImport';
+import MatchmakingPanel from './components/matches/MatchmakingPanel';
+import Tournaments from './components/tournaments/Tournaments';
+import RoundRobinPools from './components/tournaments/RoundRobinPools';
+import ChallengePanel from './components/challenges/ChallengePanel';
+import BracketImport from './components/matches/BracketImport';
+import Header from './components/common/Header';
+import ExportMenu from './components/common/ExportMenu';
+import TierBadge, { TierChangeMarker } from './components/common/TierBadge';
+import SessionWarningBanner from './components/common/SessionWarningBanner';
+import PlayerProfile from './components/players/PlayerProfile';
+import HeadToHead from './components/players/HeadToHead';
+import CharacterStats from './components/characters/CharacterStats';
+import PlayerAdminPanel from './components/players/PlayerAdminPanel';
+import SeasonSelector from './components/seasons/SeasonSelector';
+import { useSession, SESSION_EXPIRED_MESSAGE } from './hooks/useSession';
+import { useLiveUpdates } from './hooks/useLiveUpdates';
+import { useChangedKeys } from './hooks/useChangedKeys';
+import { useDisplaySettings } from './hooks/useDisplaySettings';
+import { useNow } from './hooks/useNow';
+import { formatDateTime, formatRelativeTime } from './utils/dateTime';
+import { Capability, ROLE_LABELS, hasCapability, normalizeRole } from './config/permissions';
+import { getMatchTierChanges } from './utils/tiers';
+import { LADDER_CONFIG, buildLadder, canJudgeInactivity, getPlayerIdsInMatches, getInactivityCutoff } from './utils/ladder';
+import { ExportFormat, LADDER_EXPORT_COLUMNS, MATCH_EXPORT_COLUMNS, buildLadderRows, buildMatchRows, downloadExport } from './utils/export';
+
+// Columns the ladder can be sorted by through the `sort` query parameter
+const SORTABLE_COLUMNS: (keyof Player)[] = ['elo', 'matchesPlayed', 'wins', 'losses'];
+
+const EMPTY_PAGE: MatchPage = { matches: [], total: 0 };
 
 const App = () => {
   // Auth States
-  const [isLoggedIn, setIsLoggedIn] = useState(isAuthenticated());
+  const { isLoggedIn, user, remainingTime, sessionMessage, showExpiryWarning, canRenew, startSession, endSession, renewSession } = useSession();
+  const { settings: displaySettings, dateTimeSettings, updateSettings: updateDisplaySettings } = useDisplaySettings();
+  const now = useNow();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [authError, setAuthError] = useState<string | null>(null);
+  const role = normalizeRole(user?.role);
+  
+  // Season States (null is the current season)
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
+  const viewingArchive = isArchivedSeason(seasons.find(s => s.id === selectedSeasonId));
+
+  // Past seasons are read-only, so nothing can be changed while one is shown
+  const can = (capability: Capability) => isLoggedIn && !viewingArchive && hasCapability(role, capability);
   
   // States
   const [players, setPlayers] = useState<Player[]>([]);
@@ -20,93 +69,121 @@ const App = () => {
   const [newPlayerName, setNewPlayerName] = useState('');
   const [selectedCharacter, setSelectedCharacter] = useState<number | null>(null);
   const [selectedSkin, setSelectedSkin] = useState<number>(1);
-  const [player1, setPlayer1] = useState('');
-  const [player2, setPlayer2] = useState('');
-  const [matchResult, setMatchResult] = useState('');
-  const [sortBy, setSortBy] = useState('elo');
-  const [sortDirection, setSortDirection] = useState('desc');
   const [matchHistory, setMatchHistory] = useState<Match[]>([]);
-  const [view, setView] = useState('ladder');
+  const [pendingMatches, setPendingMatches] = useState<QueuedMatch[]>(getQueuedMatches());
+  // Players with a match in the inactivity window; null until loaded
+  const [recentlyActiveIds, setRecentlyActiveIds] = useState<Set<string> | null>(null);
+  const [showEveryone, setShowEveryone] = useState(false);
+  // Pairing picked in the matchmaking panel, filled into Record Match
+  const [suggestedPairing, setSuggestedPairing] = useState<{ player1Id: string; player2Id: string; challengeId?: number } | null>(null);
 
-  // Filter states for match history
-  const [filters, setFilters] = useState<MatchFilter>({
-    limit: 50,
-    offset: 0
-  });
+  // URL state: the ladder sort and the applied match filters live in the query string
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const isMatchesRoute = location.pathname === '/matches';
+
+  const sortParam = searchParams.get('sort') as keyof Player | null;
+  const sortBy: keyof Player = sortParam && SORTABLE_COLUMNS.includes(sortParam) ? sortParam : 'elo';
+  const sortDirection = searchParams.get('dir') === 'asc' ? 'asc' : 'desc';
+
+  const appliedFilters = useMemo(() => matchFilterFromParams(searchParams), [searchParams]);
+  const hasAppliedFilters = isMatchesRoute && hasFilterCriteria(appliedFilters);
+  const pageLimit = appliedFilters.limit || DEFAULT_PAGE_SIZE;
+  const pageOffset = appliedFilters.offset || 0;
+
+  // Filter states for match history (the form is a draft until applied to the URL)
+  const [filters, setFilters] = useState<MatchFilter>({});
   const [showFilters, setShowFilters] = useState(false);
-  const [filteredMatches, setFilteredMatches] = useState<Match[]>([]);
+  const [historyPage, setHistoryPage] = useState<MatchPage>(EMPTY_PAGE);
   const [isFiltering, setIsFiltering] = useState(false);
-  const [hasAppliedFilters, setHasAppliedFilters] = useState(false);
 
-  // Check authentication status on mount and set up auto-logout
+  // Log out when the API rejects our token, e.g. after it was revoked server-side
   useEffect(() => {
-    // Initial authentication check
-    const checkAuth = () => {
-      const authenticated = isAuthenticated();
-      setIsLoggedIn(authenticated);
-      
-      // If authenticated, set up auto-logout timer
-      if (authenticated) {
-        const remainingTime = getTokenRemainingTime();
-        
-        // Only set timer if there's remaining time
-        if (remainingTime > 0) {
-          const timer = setTimeout(() => {
-            logout();
-            setIsLoggedIn(false);
-            // Optional: Show notification to user about session expiration
-            setAuthError('Your session has expired. Please login again.');
-          }, remainingTime * 1000);
-          
-          // Clear the timer on component unmount
-          return () => clearTimeout(timer);
-        } else if (isTokenExpired()) {
-          // If token is already expired on mount, logout immediately
-          logout();
-          setIsLoggedIn(false);
-        }
-      }
-    };
-    
-    checkAuth();
-    
-    // Periodic check every minute to ensure token validity
-    const intervalId = setInterval(() => {
-      if (isTokenExpired()) {
-        logout();
-        if(isLoggedIn)
-        {
-          setAuthError('Your session has expired. Please login again.');
-        }
-        setIsLoggedIn(false);
-        clearInterval(intervalId);
-      }
-    }, 60000);
-    
-    return () => clearInterval(intervalId);
-  }, []);
+    setUnauthorizedHandler(() => endSession(SESSION_EXPIRED_MESSAGE));
+    return () => setUnauthorizedHandler(null);
+  }, [endSession]);
+
+  // Reload the rankings, keeping the current list if the API is unreachable
+  const refreshPlayers = useCallback(async () => {
+    try {
+      setPlayers(await fetchPlayers(selectedSeasonId));
+    } catch (err) {
+      setError('Failed to load players: ' + getErrorMessage(err));
+    }
+  }, [selectedSeasonId]);
+
+  const refreshRecentMatches = useCallback(async () => {
+    try {
+      setMatchHistory(await getRecentMatches(selectedSeasonId));
+    } catch (err) {
+      setError('Failed to fetch recent matches: ' + getErrorMessage(err));
+    }
+  }, [selectedSeasonId]);
+
+  // Refresh the ladder after a match is recorded or a queued match is replayed
+  const handleMatchRecorded = useCallback(async () => {
+    setPendingMatches(getQueuedMatches());
+    await refreshRecentMatches();
+    await refreshPlayers();
+  }, [refreshPlayers, refreshRecentMatches]);
+
+  // Follow matches recorded or annulled by other scorekeepers
+  const liveStatus = useLiveUpdates(useCallback(async () => {
+    await refreshRecentMatches();
+    await refreshPlayers();
+  }, [refreshPlayers, refreshRecentMatches]));
+
+  // Highlight ladder rows and recent matches that changed since the last load
+  const playerSignatures = useMemo(
+    () => new Map(players.map(p => [p.id.toString(), `${p.elo}/${p.matchesPlayed}`])),
+    [players]
+  );
+  const matchSignatures = useMemo(
+    () => new Map(matchHistory.map(m => [m.id.toString(), `${m.eloChange}`])),
+    [matchHistory]
+  );
+  const changedPlayers = useChangedKeys(playerSignatures, selectedSeasonId);
+  const changedMatches = useChangedKeys(matchSignatures, selectedSeasonId);
+  const highlightClass = (changed: Set<string>, id: number) =>
+    changed.has(id.toString()) ? 'bg-yellow-100' : '';
 
   // Fetch players data from API
   useEffect(() => {
     const loadData = async () => {
       setLoading(true);
       
-      // Load players
-      const { data: playersData, error: playersError } = await fetchPlayers();
-      setPlayers(playersData);
-      if (playersError) setError(playersError);
+      // Load players, falling back to default data if the API fails
+      let playersFailed = false;
+      try {
+        setPlayers(await fetchPlayers());
+      } catch (err) {
+        console.error('Failed to fetch players:', err);
+        setPlayers(defaultPlayers);
+        setError('Failed to load players. Using default data.');
+        playersFailed = true;
+      }
       
       // Load characters
-      const { data: charactersData, error: charactersError } = await fetchCharacters();
-      setCharacters(charactersData);
-      if (charactersError && !playersError) setError(charactersError);
+      try {
+        setCharacters(await fetchCharacters());
+      } catch (err) {
+        console.error('Failed to fetch characters:', err);
+        setCharacters(defaultCharacters);
+        if (!playersFailed) setError('Failed to load characters. Using default data.');
+      }
       
       // Load recent matches
-      const recentMatches = await getRecentMatches();
-      if (typeof recentMatches !== 'string') {
-        setMatchHistory(recentMatches);
-      } else {
-        setError(recentMatches);
+      try {
+        setMatchHistory(await getRecentMatches());
+      } catch (err) {
+        setError('Failed to fetch recent matches: ' + getErrorMessage(err));
+      }
+
+      // Load seasons; without them only the current season is shown
+      try {
+        setSeasons(await fetchSeasons());
+      } catch (err) {
+        console.error('Failed to fetch seasons:', err);
       }
       
       setLoading(false);
@@ -115,6 +192,98 @@ const App = () => {
     loadData();
   }, []);
 
+  // Replay matches queued while offline once the API is reachable again and
+  // someone is signed in to record them; logging in replays straight away
+  useEffect(() => {
+    if (!isLoggedIn) return;
+
+    const syncQueue = async () => {
+      if (!navigator.onLine || !getQueuedMatches().some(m => m.status === 'pending')) return;
+
+      const result = await replayQueuedMatches();
+      setPendingMatches(getQueuedMatches());
+      if (result.recorded > 0) {
+        handleMatchRecorded();
+      }
+      if (result.rejected > 0) {
+        setError(`${result.rejected} queued match(es) were rejected by the server. Review them in Recent Matches.`);
+      }
+    };
+
+    syncQueue();
+    window.addEventListener('online', syncQueue);
+    const intervalId = setInterval(syncQueue, 30000);
+
+    return () => {
+      window.removeEventListener('online', syncQueue);
+      clearInterval(intervalId);
+    };
+  }, [handleMatchRecorded, isLoggedIn]);
+
+  // Keep the filter form in sync with the URL (e.g. on back/forward or a pasted link)
+  useEffect(() => {
+    if (!isMatchesRoute) return;
+    setFilters(appliedFilters);
+    if (hasFilterCriteria(appliedFilters)) setShowFilters(true);
+  }, [isMatchesRoute, appliedFilters]);
+
+  // Load the current page of match history whenever the filters or page in the URL change
+  useEffect(() => {
+    if (!isMatchesRoute) {
+      setHistoryPage(EMPTY_PAGE);
+      return;
+    }
+
+    let cancelled = false;
+    const loadHistoryPage = async () => {
+      setIsFiltering(true);
+      try {
+        const result = await filterMatchesPage({
+          ...appliedFilters,
+          seasonId: selectedSeasonId ?? undefined,
+          timeZone: dateTimeSettings.timeZone
+        });
+        if (!cancelled) setHistoryPage(result);
+      } catch (err) {
+        if (!cancelled) setError('Failed to fetch match history: ' + getErrorMessage(err));
+      }
+      if (!cancelled) setIsFiltering(false);
+    };
+
+    loadHistoryPage();
+    return () => {
+      cancelled = true;
+    };
+  }, [isMatchesRoute, appliedFilters, selectedSeasonId, dateTimeSettings.timeZone]);
+
+  // Work out who has played recently, again whenever a new match comes in. Keyed
+  // on the newest match so polling and refetches that change nothing don't reload it.
+  const newestMatchId = matchHistory[0]?.id;
+  const currentSeasonStart = seasons.find(season => !isArchivedSeason(season))?.startDate;
+  useEffect(() => {
+    // Inactivity only means something for the current season, once it has run long enough
+    if (viewingArchive || !canJudgeInactivity(currentSeasonStart)) {
+      setRecentlyActiveIds(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadActivePlayers = async () => {
+      try {
+        const recent = await filterAllMatches({ startDate: getInactivityCutoff().toISOString().slice(0, 10) });
+        if (!cancelled) setRecentlyActiveIds(getPlayerIdsInMatches(recent));
+      } catch (err) {
+        // Without it nobody is treated as inactive
+        console.error('Failed to load recent activity:', err);
+      }
+    };
+
+    loadActivePlayers();
+    return () => {
+      cancelled = true;
+    };
+  }, [viewingArchive, currentSeasonStart, newestMatchId]);
+
   // Handle login
   const handleLogin = async () => {
     setAuthError(null);
@@ -129,31 +298,22 @@ const App = () => {
       password: password.trim()
     };
     
-    const result = await login(credentials);
-    
-    if (typeof result === 'string') {
-      setAuthError(result);
-    } else {
-      setIsLoggedIn(true);
-      setUsername('');
-      setPassword('');
-      
-      // Set up auto-logout timer after successful login
-      const remainingTime = getTokenRemainingTime();
-      if (remainingTime > 0) {
-        setTimeout(() => {
-          logout();
-          setIsLoggedIn(false);
-          setAuthError('Your session has expired. Please login again.');
-        }, remainingTime * 1000);
-      }
+    try {
+      await login(credentials);
+    } catch (err) {
+      setAuthError(getErrorMessage(err));
+      return;
     }
+
+    // Expiry, renewal and the logout warning are handled by the session hook
+    startSession();
+    setUsername('');
+    setPassword('');
   };
   
   // Handle logout
   const handleLogout = () => {
-    logout();
-    setIsLoggedIn(false);
+    endSession();
   };
 
   // Helper function for handling Enter key press
@@ -177,44 +337,10 @@ const App = () => {
     }
   };
 
-  const handleRecordMatchSubmit = () => {
-    if (player1 && player2 && matchResult) {
-      handleRecordMatch();
-    }
-  };
-
-  // Record a match using the match service
-  const handleRecordMatch = async () => {
-    if (!player1 || !player2 || !matchResult) return;
-    
-    const result = await recordMatch(
-      player1,
-      player2,
-      matchResult,
-    );
-    
-    if (result) {
-      setError(result);
-      return;
-    }
-    
-    // Refresh match history after recording a match
-    const recentMatches = await getRecentMatches();
-    if (typeof recentMatches !== 'string') {
-      setMatchHistory(recentMatches);
-    }
-    
-    // Refresh player rankings after recording a match
-    const { data, error: playersError } = await fetchPlayers();
-    if (data) {
-      setPlayers(data);
-    }
-    if (playersError) {
-      setError(playersError);
-    }
-    
-    // Keep player selections, only clear the winner selection for next match
-    setMatchResult('');
+  // Props for a PlayerIcon showing the character a player used in a match
+  const matchCharacterIcon = (selection?: MatchCharacter | null) => {
+    const character = findCharacter(characters, selection?.characterId);
+    return character ? { character, skin: selection?.skin } : {};
   };
 
   // Add a new player
@@ -227,21 +353,15 @@ const App = () => {
       skin: selectedSkin
     };
     
-    const result = await apiAddPlayer(playerData);
-    
-    if (typeof result === 'string') {
-      setError(result);
+    try {
+      await apiAddPlayer(playerData);
+    } catch (err) {
+      setError('Failed to add player: ' + getErrorMessage(err));
       return;
     }
     
     // Refresh player list after adding a new player
-    const { data, error: playersError } = await fetchPlayers();
-    if (data) {
-      setPlayers(data);
-    }
-    if (playersError) {
-      setError(playersError);
-    }
+    await refreshPlayers();
     
     // Reset form
     setNewPlayerName('');
@@ -249,20 +369,48 @@ const App = () => {
     setSelectedSkin(1);
   };
 
+  // Switch the rankings, Recent Matches and match filters to another season
+  const handleSelectSeason = async (seasonId: number | null) => {
+    setSelectedSeasonId(seasonId);
+    try {
+      const [seasonPlayers, seasonMatches] = await Promise.all([
+        fetchPlayers(seasonId),
+        getRecentMatches(seasonId)
+      ]);
+      setPlayers(seasonPlayers);
+      setMatchHistory(seasonMatches);
+    } catch (err) {
+      setError('Failed to load season: ' + getErrorMessage(err));
+    }
+  };
+
+  // Archive the current season and start over from the base ELO
+  const handleStartSeason = async (name: string, baseElo: number) => {
+    try {
+      await startSeason({ name, baseElo });
+      setSeasons(await fetchSeasons());
+    } catch (err) {
+      setError('Failed to start season: ' + getErrorMessage(err));
+      return false;
+    }
+
+    await handleSelectSeason(null);
+    return true;
+  };
+
   // Handle sorting
   const handleSort = (column: keyof Player) => {
-    if (sortBy === column) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortBy(column);
-      setSortDirection('desc');
-    }
+    const direction = sortBy === column && sortDirection === 'desc' ? 'asc' : 'desc';
+    setSearchParams({ sort: column, dir: direction }, { replace: true });
   };
 
+  // Retired players keep resolving in match history but leave the ladder
+  const activePlayers = getActivePlayers(players);
+
   // Sort players
-  const sortedPlayers = [...players].sort((a, b) => {
-    const aValue = a[sortBy as keyof Player] as number;
-    const bValue = b[sortBy as keyof Player] as number;
+  const sortedPlayers = [...activePlayers].sort((a, b) => {
+    const aValue = a[sortBy] as number;
+    const bValue = b[sortBy] as number;
     
     if (sortDirection === 'asc') {
       return aValue - bValue;
@@ -271,28 +419,32 @@ const App = () => {
     }
   });
 
-  // Filter functions
-  const handleApplyFilters = async () => {
-    setIsFiltering(true);
-    const result = await filterMatches(filters);
-    
-    if (typeof result === 'string') {
-      setError(result);
-    } else {
-      setFilteredMatches(result);
-      setHasAppliedFilters(true);
-    }
-    setIsFiltering(false);
+  // Provisional players stay off the podium and inactive ones are hidden unless asked for
+  const ladder = buildLadder(sortedPlayers, recentlyActiveIds, showEveryone);
+  const podiumPlayers = ladder.podium.map(entry => entry.player);
+  // Challenges go by ELO rank whatever the table is sorted by
+  const eloLadder = buildLadder([...activePlayers].sort((a, b) => b.elo - a.elo), recentlyActiveIds, true);
+  const challengeEntries = eloLadder.entries;
+
+  // Filter functions; applying or clearing filters starts again from the first page
+  const handleApplyFilters = () => {
+    setSearchParams(matchFilterToParams({ ...filters, limit: appliedFilters.limit, offset: undefined }));
   };
 
   const handleClearFilters = () => {
-    setFilters({ limit: 50, offset: 0 });
-    setFilteredMatches([]);
-    setHasAppliedFilters(false);
-    setIsFiltering(false);
+    setFilters({});
+    setSearchParams(matchFilterToParams({ limit: appliedFilters.limit }));
   };
 
-  const updateFilter = (key: keyof MatchFilter, value: any) => {
+  const handlePageChange = (offset: number, limit: number) => {
+    setSearchParams(matchFilterToParams({
+      ...appliedFilters,
+      offset,
+      limit: limit === DEFAULT_PAGE_SIZE ? undefined : limit
+    }));
+  };
+
+  const updateFilter = (key: keyof MatchFilter, value: string | number | undefined) => {
     setFilters(prev => ({
       ...prev,
       [key]: value === '' ? undefined : value
@@ -305,62 +457,59 @@ const App = () => {
       return;
     }
     
-    const result = await annulMatch(matchId);
-    
-    if (result) {
-      setError(result);
+    try {
+      await annulMatch(matchId);
+    } catch (err) {
+      setError('Failed to annul match: ' + getErrorMessage(err));
       return;
     }
     
-    // Refresh both match history and filtered matches after annulling
-    const recentMatches = await getRecentMatches();
-    if (typeof recentMatches !== 'string') {
-      setMatchHistory(recentMatches);
-    }
+    // Refresh both recent matches and the current history page after annulling
+    await refreshRecentMatches();
     
-    // If filters are applied, refresh filtered results
-    if (hasAppliedFilters) {
-      const filteredResult = await filterMatches(filters);
-      if (typeof filteredResult !== 'string') {
-        setFilteredMatches(filteredResult);
-      }
+    try {
+      setHistoryPage(await filterMatchesPage({
+        ...appliedFilters,
+        seasonId: selectedSeasonId ?? undefined,
+        timeZone: dateTimeSettings.timeZone
+      }));
+    } catch (err) {
+      setError('Failed to fetch match history: ' + getErrorMessage(err));
     }
     
     // Refresh player rankings after annulling a match
-    const { data, error: playersError } = await fetchPlayers();
-    if (data) {
-      setPlayers(data);
-    }
-    if (playersError) {
-      setError(playersError);
-    }
+    await refreshPlayers();
   };
 
-  // Helper function to format timestamp in GMT-4 timezone without DST adjustments
-  const formatTimestampGMT4 = (timestamp: string) => {
-    const date = new Date(timestamp);
-    
-    // Create UTC date then apply fixed GMT-4 offset (subtract 4 hours in milliseconds)
-    const utcDate = new Date(date.getTime());
-    const gmt4Date = new Date(utcDate.getTime() - (4 * 60 * 60 * 1000));
-    
-    return gmt4Date.toLocaleString('en-US', {
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: true
-    });
+  // Export the ladder as currently sorted
+  const handleExportLadder = (format: ExportFormat) => {
+    downloadExport('ladder', buildLadderRows(ladder.entries), LADDER_EXPORT_COLUMNS, format);
+  };
+
+  // Export every match of the applied filters, not just the page on screen
+  const handleExportMatches = async (format: ExportFormat, timeZone: string) => {
+    try {
+      const matches = await filterAllMatches({
+        ...appliedFilters,
+        seasonId: selectedSeasonId ?? undefined,
+        timeZone: dateTimeSettings.timeZone
+      });
+      downloadExport('matches', buildMatchRows(matches, players, characters, timeZone), MATCH_EXPORT_COLUMNS, format);
+    } catch (err) {
+      setError('Failed to export matches: ' + getErrorMessage(err));
+    }
   };
 
+  // Format a timestamp in the viewer's chosen timezone and locale
+  const formatTimestamp = (timestamp: string) => formatDateTime(timestamp, dateTimeSettings);
+
   // Render login form
   const renderLoginForm = () => (
     <div className="bg-white p-4 rounded shadow mb-6">
       <h2 className="text-xl font-semibold mb-4">Admin Login</h2>
-      {authError && (
+      {(authError || sessionMessage) && (
         <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-4" role="alert">
-          <p>{authError}</p>
+          <p>{authError || sessionMessage}</p>
         </div>
       )}
       <div className="grid grid-cols-1 gap-3">
@@ -391,7 +540,7 @@ const App = () => {
 
   // Render match history component
   const renderMatchHistory = () => {
-    const displayMatches = hasAppliedFilters ? filteredMatches : matchHistory;
+    const displayMatches = historyPage.matches;
     
     return (
       <div className="bg-white p-4 rounded shadow">
@@ -400,16 +549,19 @@ const App = () => {
             <h2 className="text-xl font-semibold">Match History</h2>
             {hasAppliedFilters && (
               <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
-                Filtered ({displayMatches.length} results)
+                Filtered ({historyPage.total} results)
               </span>
             )}
           </div>
-          <button
-            onClick={() => setShowFilters(!showFilters)}
-            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-          >
-            {showFilters ? 'Hide Filters' : 'Show Filters'}
-          </button>
+          <div className="flex items-center gap-4">
+            {historyPage.total > 0 && <ExportMenu withTimeZone defaultTimeZone={dateTimeSettings.timeZone} onExport={handleExportMatches} />}
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              {showFilters ? 'Hide Filters' : 'Show Filters'}
+            </button>
+          </div>
         </div>
         
         {/* Filter Panel */}
@@ -464,7 +616,7 @@ const App = () => {
               
               {/* Start Date */}
               <div>
-                <label className="block text-sm font-medium mb-1">Start Date</label>
+                <label className="block text-sm font-medium mb-1" title={`Days in ${dateTimeSettings.timeZone}`}>Start Date</label>
                 <input
                   type="date"
                   className="w-full px-3 py-2 border rounded"
@@ -475,7 +627,7 @@ const App = () => {
               
               {/* End Date */}
               <div>
-                <label className="block text-sm font-medium mb-1">End Date</label>
+                <label className="block text-sm font-medium mb-1" title={`Days in ${dateTimeSettings.timeZone}`}>End Date</label>
                 <input
                   type="date"
                   className="w-full px-3 py-2 border rounded"
@@ -507,18 +659,6 @@ const App = () => {
                   onChange={(e) => updateFilter('maxEloChange', e.target.value ? parseInt(e.target.value) : undefined)}
                 />
               </div>
-              
-              {/* Limit */}
-              <div>
-                <label className="block text-sm font-medium mb-1">Results Limit</label>
-                <input
-                  type="number"
-                  className="w-full px-3 py-2 border rounded"
-                  placeholder="50"
-                  value={filters.limit || ''}
-                  onChange={(e) => updateFilter('limit', e.target.value ? parseInt(e.target.value) : 50)}
-                />
-              </div>
             </div>
             
             {/* Filter Action Buttons */}
@@ -545,11 +685,12 @@ const App = () => {
             <table className="min-w-full">
               <thead>
                 <tr className="bg-gray-100">
-                  <th className="px-4 py-2 text-left">Date (GMT-4)</th>
+                  <th className="px-4 py-2 text-left">Date ({dateTimeSettings.timeZone})</th>
                   <th className="px-4 py-2 text-left">Winner</th>
                   <th className="px-4 py-2 text-left">Loser</th>
+                  <th className="px-4 py-2 text-left">Score</th>
                   <th className="px-4 py-2 text-left">ELO Change</th>
-                  {isLoggedIn && <th className="px-4 py-2 text-left">Actions</th>}
+                  {can('matches:annul') && <th className="px-4 py-2 text-left">Actions</th>}
                 </tr>
               </thead>
               <tbody>
@@ -560,30 +701,34 @@ const App = () => {
                   const winnerName = winnerPlayer?.name || match.winnerId;
                   const loserName = loserPlayer?.name || match.loserId;
                   
-                  // Format timestamp to GMT-4 timezone
-                  const formattedTime = formatTimestampGMT4(match.timestamp);
+                  const formattedTime = formatTimestamp(match.timestamp);
+                  const score = formatSetScore(match);
+                  const tierChanges = getMatchTierChanges(match);
                   
                   return (
                     <tr key={match.id} className="border-b">
                       <td className="px-4 py-2">{formattedTime}</td>
                       <td className="px-4 py-2">
                         <div className="flex items-center gap-2">
-                          {winnerPlayer && <PlayerIcon player={winnerPlayer} size="small" />}
+                          {winnerPlayer && <PlayerIcon player={winnerPlayer} size="small" {...matchCharacterIcon(match.winnerCharacter)} />}
                           <span className="font-medium text-green-600">
-                            {winnerName} <span className="text-gray-600">({match.winnerCurrentElo})</span>
+                            {winnerPlayer ? <Link to={`/players/${winnerPlayer.id}`} className="hover:underline">{winnerName}</Link> : winnerName} <span className="text-gray-600">({match.winnerCurrentElo})</span>
                           </span>
+                          <TierChangeMarker change={tierChanges.winner} />
                         </div>
                       </td>
                       <td className="px-4 py-2">
                         <div className="flex items-center gap-2">
-                          {loserPlayer && <PlayerIcon player={loserPlayer} size="small" />}
+                          {loserPlayer && <PlayerIcon player={loserPlayer} size="small" {...matchCharacterIcon(match.loserCharacter)} />}
                           <span className="text-red-600">
-                            {loserName} <span className="text-gray-600">({match.loserCurrentElo})</span>
+                            {loserPlayer ? <Link to={`/players/${loserPlayer.id}`} className="hover:underline">{loserName}</Link> : loserName} <span className="text-gray-600">({match.loserCurrentElo})</span>
                           </span>
+                          <TierChangeMarker change={tierChanges.loser} />
                         </div>
                       </td>
+                      <td className="px-4 py-2 font-medium">{score || '-'}</td>
                       <td className="px-4 py-2 font-bold text-green-600">±{match.eloChange}</td>
-                      {isLoggedIn && (
+                      {can('matches:annul') && (
                         <td className="px-4 py-2">
                           <button
                             onClick={() => handleAnnulMatch(match.id)}
@@ -604,16 +749,50 @@ const App = () => {
             {isFiltering ? 'Loading...' : hasAppliedFilters ? 'No matches found matching the current filters.' : 'No matches recorded yet.'}
           </p>
         )}
+
+        {historyPage.total > 0 && (
+          <Pagination
+            total={historyPage.total}
+            limit={pageLimit}
+            offset={pageOffset}
+            onChange={handlePageChange}
+          />
+        )}
       </div>
     );
   };
 
+  // Retry or dismiss a queued match the server rejected
+  const handleRetryQueuedMatch = async (localId: string) => {
+    retryQueuedMatch(localId);
+    setPendingMatches(getQueuedMatches());
+    const result = await replayQueuedMatches();
+    if (result.recorded > 0) {
+      handleMatchRecorded();
+    } else {
+      setPendingMatches(getQueuedMatches());
+    }
+  };
+
+  const handleDismissQueuedMatch = (localId: string) => {
+    dismissQueuedMatch(localId);
+    setPendingMatches(getQueuedMatches());
+  };
+
   // Recent Matches section (in the ladder view's left column)
   const renderRecentMatches = () => (
     <div className="bg-white p-4 rounded shadow">
       <h2 className="text-xl font-semibold mb-4">Recent Matches</h2>
-      {matchHistory.length > 0 ? (
+      {matchHistory.length > 0 || pendingMatches.length > 0 ? (
         <div className="overflow-y-auto max-h-64">
+          <PendingMatchList
+            pendingMatches={pendingMatches}
+            players={players}
+            canManage={can('matches:record')}
+            formatTimestamp={formatTimestamp}
+            onRetry={handleRetryQueuedMatch}
+            onDismiss={handleDismissQueuedMatch}
+          />
           {matchHistory.slice(0, 5).map((match) => {
             // Find player objects based on IDs
             const winnerPlayer = players.find(p => p.id === parseInt(match.winnerId));
@@ -621,13 +800,18 @@ const App = () => {
             const winnerName = winnerPlayer?.name || match.winnerId;
             const loserName = loserPlayer?.name || match.loserId;
             
-            // Format timestamp to GMT-4 timezone
-            const formattedTime = formatTimestampGMT4(match.timestamp);
+            // Relative while recent, with the full time on hover
+            const formattedTime = formatRelativeTime(match.timestamp, dateTimeSettings.locale, now);
+            const score = formatSetScore(match);
+            const tierChanges = getMatchTierChanges(match);
             
             return (
-              <div key={match.id} className="border-b py-2">
+              <div key={match.id} className={`border-b py-2 transition-colors duration-1000 ${highlightClass(changedMatches, match.id)}`}>
                 <div className="flex justify-between text-sm">
-                  <span className="text-gray-500">{formattedTime}</span>
+                  <span className="text-gray-500" title={formatTimestamp(match.timestamp)}>
+                    {formattedTime}
+                    {match.challengeId && <span className="ml-2 px-1.5 py-0.5 bg-purple-100 text-purple-800 text-xs rounded">Challenge</span>}
+                  </span>
                   <span className="font-bold text-base">
                     <span className="text-green-600">
                       ±{match.eloChange}
@@ -636,13 +820,15 @@ const App = () => {
                 </div>
                 <div className="flex items-center gap-2">
                   <div className="flex items-center gap-1">
-                    {winnerPlayer && <PlayerIcon player={winnerPlayer} size="small" />}
+                    {winnerPlayer && <PlayerIcon player={winnerPlayer} size="small" {...matchCharacterIcon(match.winnerCharacter)} />}
                     <span className="font-medium text-green-600">{winnerName} <span className="text-gray-600">({match.winnerCurrentElo})</span></span>
+                    <TierChangeMarker change={tierChanges.winner} />
                   </div>
-                  <span className="text-gray-500">defeated</span>
+                  <span className="text-gray-500">defeated{score && <span className="font-bold text-gray-700"> {score}</span>}</span>
                   <div className="flex items-center gap-1">
-                    {loserPlayer && <PlayerIcon player={loserPlayer} size="small" />}
+                    {loserPlayer && <PlayerIcon player={loserPlayer} size="small" {...matchCharacterIcon(match.loserCharacter)} />}
                     <span className="text-red-600">{loserName} <span className="text-gray-600">({match.loserCurrentElo})</span></span>
+                    <TierChangeMarker change={tierChanges.loser} />
                   </div>
                 </div>
               </div>
@@ -657,31 +843,23 @@ const App = () => {
 
   return (
     <div className="max-w-7xl mx-auto p-4 bg-gray-50 rounded-lg shadow">
-      <div className="flex justify-between items-center mb-6">
-        <h1 className="text-3xl font-bold text-blue-800">ELO Ladder Management</h1>
-        {isLoggedIn && (
-          <button 
-            onClick={handleLogout}
-            className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded"
-          >
-            Logout
-          </button>
-        )}
-      </div>
-      
-      {/* Navigation */}
-      <div className="flex justify-center mb-6">
-        <button 
-          className={`px-4 py-2 mx-2 rounded ${view === 'ladder' ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}
-          onClick={() => setView('ladder')}>
-          Ladder
-        </button>
-        <button 
-          className={`px-4 py-2 mx-2 rounded ${view === 'matches' ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}
-          onClick={() => setView('matches')}>
-          Match History
-        </button>
-      </div>
+      <Header
+        isLoggedIn={isLoggedIn}
+        username={user?.username}
+        roleLabel={ROLE_LABELS[role]}
+        onLogout={handleLogout}
+        displaySettings={displaySettings}
+        onDisplaySettingsChange={updateDisplaySettings}
+      />
+
+      {showExpiryWarning && (
+        <SessionWarningBanner
+          remainingTime={remainingTime}
+          canRenew={canRenew}
+          onRenew={renewSession}
+          onLogout={handleLogout}
+        />
+      )}
       
       {/* Display loading state */}
       {loading && (
@@ -690,6 +868,17 @@ const App = () => {
         </div>
       )}
       
+      {!loading && (
+        <SeasonSelector
+          seasons={seasons}
+          selectedSeasonId={selectedSeasonId}
+          onSelect={handleSelectSeason}
+          canStartSeason={can('seasons:manage')}
+          onStartSeason={handleStartSeason}
+          dateTimeSettings={dateTimeSettings}
+        />
+      )}
+      
       {/* Display error message if any */}
       {error && (
         <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-4" role="alert">
@@ -697,236 +886,299 @@ const App = () => {
         </div>
       )}
       
-      {/* Ladder View with 2-column layout */}
-      {!loading && view === 'ladder' && (
-        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
-          {/* Left Column - Forms */}
-          <div className="col-span-2 space-y-6">
-            {/* Login Form or Add Player & Record Match Forms */}
-            {!isLoggedIn ? (
-              renderLoginForm()
-            ) : (
-              <>
-                {/* Add Player Form */}
-                <div className="bg-white p-4 rounded shadow">
-                  <h2 className="text-xl font-semibold mb-4">Add New Player</h2>
-                  <div className="flex gap-3" style={{ flexDirection: 'column' }}>
-                    <input 
-                      type="text" 
-                      className="flex-1 px-3 py-2 border rounded" 
-                      placeholder="Player Name" 
-                      value={newPlayerName}
-                      onChange={(e) => setNewPlayerName(e.target.value)}
-                      onKeyDown={(e) => handleKeyDown(e, handleAddPlayerSubmit)}
-                    />
+      <Routes>
+        {/* Ladder View with 2-column layout */}
+        <Route path="/" element={!loading && (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            {/* Left Column - Forms */}
+            <div className="col-span-2 space-y-6">
+              {/* Login Form or Add Player & Record Match Forms */}
+              {!isLoggedIn ? (
+                renderLoginForm()
+              ) : viewingArchive ? (
+                <div className="bg-white p-4 rounded shadow text-gray-600">
+                  This season is archived. Switch back to the current season to record matches or manage players.
+                </div>
+              ) : (
+                <>
+                  {/* Add Player Form */}
+                  {can('players:manage') && (
+                    <div className="bg-white p-4 rounded shadow">
+                      <h2 className="text-xl font-semibold mb-4">Add New Player</h2>
+                      <div className="flex gap-3" style={{ flexDirection: 'column' }}>
+                        <input 
+                          type="text" 
+                          className="flex-1 px-3 py-2 border rounded" 
+                          placeholder="Player Name" 
+                          value={newPlayerName}
+                          onChange={(e) => setNewPlayerName(e.target.value)}
+                          onKeyDown={(e) => handleKeyDown(e, handleAddPlayerSubmit)}
+                        />
                     
-                    <div className="flex gap-2" style={{ justifyContent: 'space-between' }}>
-                      <select 
-                        className="p-2 border flex-1 rounded"
-                        value={selectedCharacter || ''}
-                        onChange={(e) => setSelectedCharacter(e.target.value ? parseInt(e.target.value) : null)}
-                      >
-                        <option value="">Select Character</option>
-                        {characters.map(character => (
-                          <option key={character.id} value={character.id}>
-                            {character.name}
-                          </option>
-                        ))}
-                      </select>
-                      
-                      {selectedCharacter && (
-                        <div className="flex">
-                          {[1, 2, 3, 4, 5, 6, 7, 8].map((skinNumber) => {
-                            const selectedChar = characters.find(c => c.id === selectedCharacter);
-                            const iconSrc = selectedChar ? `/icons/stock/${selectedChar.icon_name}${skinNumber}.png` : '/icons/stock/default1.png';
-                            
-                            return (
-                              <button
-                                key={skinNumber}
-                                type="button"
-                                className={`p-1 border ${skinNumber === 1 ? 'rounded-l' : ''} ${skinNumber === 8 ? 'rounded-r' : ''} ${selectedSkin === skinNumber ? 'bg-blue-100 border-blue-500' : 'bg-white'}`}
-                                onClick={() => setSelectedSkin(skinNumber)}
-                              >
-                                <img 
-                                  src={iconSrc}
-                                  alt={`${selectedChar?.name || 'Character'} Skin ${skinNumber}`} 
-                                  className="w-8 h-8 rounded-full object-cover"
-                                  onError={(e) => {
-                                    const target = e.target as HTMLImageElement;
-                                    target.src = '/icons/stock/default1.png';
-                                  }}
-                                />
-                              </button>
-                            );
-                          })}
-                        </div>
-                      )}
-                    </div>
+                        <CharacterPicker
+                          characters={characters}
+                          characterId={selectedCharacter}
+                          skin={selectedSkin}
+                          onChange={(characterId, skin) => {
+                            setSelectedCharacter(characterId);
+                            setSelectedSkin(skin);
+                          }}
+                        />
                     
-                    <button 
-                      className="bg-green-600 text-white px-4 py-2 rounded"
-                      onClick={addPlayer}
-                    >
-                      Add Player
-                    </button>
-                  </div>
-                </div>
+                        <button 
+                          className="bg-green-600 text-white px-4 py-2 rounded"
+                          onClick={addPlayer}
+                        >
+                          Add Player
+                        </button>
+                      </div>
+                    </div>
+                  )}
 
-                {/* Record Match Form */}
-                <div className="bg-white p-4 rounded shadow">
-                  <h2 className="text-xl font-semibold mb-4">Record Match</h2>
-                  <div className="grid grid-cols-1 gap-3 mb-3">
-                    <select 
-                      className="p-2 border rounded"
-                      value={player1}
-                      onChange={(e) => setPlayer1(e.target.value)}>
-                      <option value="">Select Player 1</option>
-                      {players.map(player => (
-                        <option key={`p1-${player.id}`} value={player.id}>{player.name}</option>
-                      ))}
-                    </select>
-                    <select 
-                      className="p-2 border rounded"
-                      value={player2}
-                      onChange={(e) => setPlayer2(e.target.value)}>
-                      <option value="">Select Player 2</option>
-                      {players.map(player => (
-                        <option key={`p2-${player.id}`} value={player.id} disabled={player.id.toString() === player1}>
-                          {player.name}
-                        </option>
-                      ))}
-                    </select>
-                    <select 
-                      className="p-2 border rounded"
-                      value={matchResult}
-                      onChange={(e) => setMatchResult(e.target.value)}
-                      onKeyDown={(e) => handleKeyDown(e, handleRecordMatchSubmit)}>
-                      <option value="">Select Winner</option>
-                      {player1 && <option value={player1}>{players.find(p => p.id === parseInt(player1))?.name}</option>}
-                      {player2 && <option value={player2}>{players.find(p => p.id === parseInt(player2))?.name}</option>}
-                    </select>
-                  </div>
-                  <button 
-                    className="w-full bg-blue-600 text-white px-4 py-2 rounded"
-                    onClick={handleRecordMatch}
-                    disabled={!player1 || !player2 || !matchResult}>
-                    Record Match
-                  </button>
-                </div>
-              </>
-            )}
+                  {/* Edit, retire and merge players */}
+                  {can('players:manage') && (
+                    <PlayerAdminPanel
+                      players={players}
+                      characters={characters}
+                      onChanged={() => {
+                        refreshPlayers();
+                        refreshRecentMatches();
+                      }}
+                      onError={setError}
+                    />
+                  )}
+
+                  {/* Pairings for whoever is present, sent to the form below */}
+                  {can('matches:record') && (
+                    <MatchmakingPanel
+                      players={activePlayers}
+                      recentMatches={matchHistory}
+                      onSelectPairing={(player1Id, player2Id) => setSuggestedPairing({ player1Id, player2Id })}
+                    />
+                  )}
+
+                  {/* Record Match Form */}
+                  {can('matches:record') && (
+                    <RecordMatchForm
+                      players={activePlayers}
+                      characters={characters}
+                      onRecorded={handleMatchRecorded}
+                      onError={setError}
+                      pairing={suggestedPairing}
+                    />
+                  )}
+
+                  {/* Bulk import of results entered elsewhere */}
+                  {can('matches:record') && (
+                    <MatchImport
+                      players={players}
+                      characters={characters}
+                      onImported={handleMatchRecorded}
+                      onError={setError}
+                    />
+                  )}
+
+                  {can('matches:record') && (
+                    <BracketImport
+                      players={players}
+                      canAddPlayers={can('players:manage')}
+                      onImported={handleMatchRecorded}
+                      onError={setError}
+                    />
+                  )}
+                </>
+              )}
             
-            {/* Recent Matches (shown only in ladder view's left column) */}
-            {renderRecentMatches()}
-          </div>
+              {/* Recent Matches (shown only in ladder view's left column) */}
+              {renderRecentMatches()}
+
+              {/* Pending ladder challenges */}
+              <ChallengePanel
+                players={players}
+                entries={challengeEntries}
+                seasonId={selectedSeasonId}
+                canManage={can('matches:record')}
+                newestMatchId={newestMatchId}
+                onPlayChallenge={(challenge) => setSuggestedPairing({
+                  player1Id: challenge.challengerId,
+                  player2Id: challenge.defenderId,
+                  challengeId: challenge.id
+                })}
+              />
+            </div>
           
-          {/* Right Column - Rankings */}
-          <div className="col-span-3 bg-white p-4 rounded shadow">
-            <h2 className="text-xl font-semibold mb-4">Player Rankings</h2>
+            {/* Right Column - Rankings */}
+            <div className="col-span-3 bg-white p-4 rounded shadow">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold">Player Rankings</h2>
+                <div className="flex items-center gap-4">
+                  {!viewingArchive && (
+                    <span className="text-xs text-gray-500" title="The ladder updates when anyone records or annuls a match">
+                      <span className={liveStatus === 'live' ? 'text-green-600' : 'text-gray-400'}>●</span>{' '}
+                      {liveStatus === 'live' ? 'Live' : liveStatus === 'polling' ? 'Auto-refresh' : 'Connecting...'}
+                    </span>
+                  )}
+                  {(ladder.hiddenCount > 0 || showEveryone) && (
+                    <label className="flex items-center gap-1 text-sm text-gray-600">
+                      <input type="checkbox" checked={showEveryone} onChange={(e) => setShowEveryone(e.target.checked)} />
+                      Show everyone{ladder.hiddenCount > 0 && ` (${ladder.hiddenCount} inactive hidden)`}
+                    </label>
+                  )}
+                  {sortedPlayers.length > 0 && <ExportMenu onExport={handleExportLadder} />}
+                </div>
+              </div>
             
-            {/* Winners Podium */}
-            {sortedPlayers.length >= 3 && (
-              <div className="mb-6">
-                <div className="flex justify-center items-end gap-4 mb-4">
-                  {/* 2nd Place */}
-                  <div className="text-center">
-                    <div className="bg-gradient-to-t from-gray-300 to-gray-400 rounded-lg p-4 mb-2 h-24 flex flex-col justify-end shadow-md">
-                      <div className="flex flex-col items-center">
-                        <PlayerIcon player={sortedPlayers[1]} size="medium" />
-                        <div className="text-white font-bold text-sm mt-1">{sortedPlayers[1].name}</div>
+              {/* Winners Podium */}
+              {podiumPlayers.length === 3 && (
+                <div className="mb-6">
+                  <div className="flex justify-center items-end gap-4 mb-4">
+                    {/* 2nd Place */}
+                    <div className="text-center">
+                      <div className={`bg-gradient-to-t from-gray-300 to-gray-400 rounded-lg p-4 mb-2 h-24 flex flex-col justify-end shadow-md ${changedPlayers.has(podiumPlayers[1].id.toString()) ? 'ring-4 ring-yellow-200' : ''}`}>
+                        <div className="flex flex-col items-center">
+                          <PlayerIcon player={podiumPlayers[1]} size="medium" />
+                          <Link to={`/players/${podiumPlayers[1].id}`} className="text-white font-bold text-sm mt-1 hover:underline">{podiumPlayers[1].name}</Link>
+                        </div>
                       </div>
+                      <div className="bg-gray-400 text-white text-xs font-bold py-1 px-2 rounded">
+                        2nd - {podiumPlayers[1].elo} ELO
+                      </div>
+                      <TierBadge elo={podiumPlayers[1].elo} className="inline-block mt-1" />
                     </div>
-                    <div className="bg-gray-400 text-white text-xs font-bold py-1 px-2 rounded">
-                      2nd - {sortedPlayers[1].elo} ELO
-                    </div>
-                  </div>
                   
-                  {/* 1st Place */}
-                  <div className="text-center">
-                    <div className="bg-gradient-to-t from-yellow-400 to-yellow-500 rounded-lg p-4 mb-2 h-32 flex flex-col justify-end shadow-lg border-2 border-yellow-300">
-                      <div className="flex flex-col items-center">
-                        <div className="text-2xl mb-1">👑</div>
-                        <PlayerIcon player={sortedPlayers[0]} size="medium" />
-                        <div className="text-white font-bold text-sm mt-1">{sortedPlayers[0].name}</div>
+                    {/* 1st Place */}
+                    <div className="text-center">
+                      <div className={`bg-gradient-to-t from-yellow-400 to-yellow-500 rounded-lg p-4 mb-2 h-32 flex flex-col justify-end shadow-lg border-2 border-yellow-300 ${changedPlayers.has(podiumPlayers[0].id.toString()) ? 'ring-4 ring-yellow-200' : ''}`}>
+                        <div className="flex flex-col items-center">
+                          <div className="text-2xl mb-1">👑</div>
+                          <PlayerIcon player={podiumPlayers[0]} size="medium" />
+                          <Link to={`/players/${podiumPlayers[0].id}`} className="text-white font-bold text-sm mt-1 hover:underline">{podiumPlayers[0].name}</Link>
+                        </div>
                       </div>
+                      <div className="bg-yellow-500 text-white text-xs font-bold py-1 px-2 rounded">
+                        1st - {podiumPlayers[0].elo} ELO
+                      </div>
+                      <TierBadge elo={podiumPlayers[0].elo} className="inline-block mt-1" />
                     </div>
-                    <div className="bg-yellow-500 text-white text-xs font-bold py-1 px-2 rounded">
-                      1st - {sortedPlayers[0].elo} ELO
-                    </div>
-                  </div>
                   
-                  {/* 3rd Place */}
-                  <div className="text-center">
-                    <div className="bg-gradient-to-t from-orange-400 to-orange-500 rounded-lg p-4 mb-2 h-20 flex flex-col justify-end shadow-md">
-                      <div className="flex flex-col items-center">
-                        <PlayerIcon player={sortedPlayers[2]} size="medium" />
-                        <div className="text-white font-bold text-sm mt-1">{sortedPlayers[2].name}</div>
+                    {/* 3rd Place */}
+                    <div className="text-center">
+                      <div className={`bg-gradient-to-t from-orange-400 to-orange-500 rounded-lg p-4 mb-2 h-20 flex flex-col justify-end shadow-md ${changedPlayers.has(podiumPlayers[2].id.toString()) ? 'ring-4 ring-yellow-200' : ''}`}>
+                        <div className="flex flex-col items-center">
+                          <PlayerIcon player={podiumPlayers[2]} size="medium" />
+                          <Link to={`/players/${podiumPlayers[2].id}`} className="text-white font-bold text-sm mt-1 hover:underline">{podiumPlayers[2].name}</Link>
+                        </div>
                       </div>
-                    </div>
-                    <div className="bg-orange-500 text-white text-xs font-bold py-1 px-2 rounded">
-                      3rd - {sortedPlayers[2].elo} ELO
+                      <div className="bg-orange-500 text-white text-xs font-bold py-1 px-2 rounded">
+                        3rd - {podiumPlayers[2].elo} ELO
+                      </div>
+                      <TierBadge elo={podiumPlayers[2].elo} className="inline-block mt-1" />
                     </div>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
             
-            <div className="overflow-x-auto overflow-y-auto" style={{ maxHeight: 'calc(100vh - 280px)' }}>
-              <table className="min-w-full">
-                <thead>
-                  <tr className="bg-gray-100">
-                    <th className="px-4 py-2 text-left">Rank</th>
-                    <th className="px-4 py-2 text-left">Player</th>
-                    <th 
-                      className="px-4 py-2 text-left cursor-pointer"
-                      onClick={() => handleSort('elo')}>
-                      ELO {sortBy === 'elo' && (sortDirection === 'asc' ? '↑' : '↓')}
-                    </th>
-                    <th 
-                      className="px-4 py-2 text-left cursor-pointer"
-                      onClick={() => handleSort('matchesPlayed')}>
-                      MP {sortBy === 'matchesPlayed' && (sortDirection === 'asc' ? '↑' : '↓')}
-                    </th>
-                    <th 
-                      className="px-4 py-2 text-left cursor-pointer"
-                      onClick={() => handleSort('wins')}>
-                      W {sortBy === 'wins' && (sortDirection === 'asc' ? '↑' : '↓')}
-                    </th>
-                    <th 
-                      className="px-4 py-2 text-left cursor-pointer"
-                      onClick={() => handleSort('losses')}>
-                      L {sortBy === 'losses' && (sortDirection === 'asc' ? '↑' : '↓')}
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {sortedPlayers.slice(sortedPlayers.length >= 3 ? 3 : 0).map((player, index) => {
-                    const actualRank = sortedPlayers.length >= 3 ? index + 4 : index + 1;
-                    return (
-                      <tr key={player.id} className={index % 2 === 0 ? 'bg-gray-50' : 'bg-white'}>
-                        <td className="px-4 py-2">{actualRank}</td>
-                        <td className="px-4 py-2">
-                          <div className="flex items-center gap-3">
-                            <PlayerIcon player={player} size="medium" />
-                            <span className="font-medium">{player.name}</span>
-                          </div>
-                        </td>
-                        <td className="px-4 py-2">{player.elo}</td>
-                        <td className="px-4 py-2">{player.matchesPlayed}</td>
-                        <td className="px-4 py-2">{player.wins}</td>
-                        <td className="px-4 py-2">{player.losses}</td>
-                      </tr>
-                    );
-                  })}
-                </tbody>
-              </table>
+              <div className="overflow-x-auto overflow-y-auto" style={{ maxHeight: 'calc(100vh - 280px)' }}>
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="px-4 py-2 text-left">Rank</th>
+                      <th className="px-4 py-2 text-left">Player</th>
+                      <th className="px-4 py-2 text-left">Tier</th>
+                      <th 
+                        className="px-4 py-2 text-left cursor-pointer"
+                        onClick={() => handleSort('elo')}>
+                        ELO {sortBy === 'elo' && (sortDirection === 'asc' ? '↑' : '↓')}
+                      </th>
+                      <th 
+                        className="px-4 py-2 text-left cursor-pointer"
+                        onClick={() => handleSort('matchesPlayed')}>
+                        MP {sortBy === 'matchesPlayed' && (sortDirection === 'asc' ? '↑' : '↓')}
+                      </th>
+                      <th 
+                        className="px-4 py-2 text-left cursor-pointer"
+                        onClick={() => handleSort('wins')}>
+                        W {sortBy === 'wins' && (sortDirection === 'asc' ? '↑' : '↓')}
+                      </th>
+                      <th 
+                        className="px-4 py-2 text-left cursor-pointer"
+                        onClick={() => handleSort('losses')}>
+                        L {sortBy === 'losses' && (sortDirection === 'asc' ? '↑' : '↓')}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ladder.rows.map(({ player, rank, provisional, inactive }, index) => {
+                      return (
+                        <tr key={player.id} className={`transition-colors duration-1000 ${highlightClass(changedPlayers, player.id) || (index % 2 === 0 ? 'bg-gray-50' : 'bg-white')} ${inactive ? 'text-gray-400' : ''}`}>
+                          <td className="px-4 py-2">{rank ?? '–'}</td>
+                          <td className="px-4 py-2">
+                            <div className="flex items-center gap-3">
+                              <PlayerIcon player={player} size="medium" />
+                              <Link to={`/players/${player.id}`} className="font-medium hover:underline">{player.name}</Link>
+                              {provisional && (
+                                <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600" title={`Fewer than ${LADDER_CONFIG.provisionalMatches} matches played`}>
+                                  Provisional
+                                </span>
+                              )}
+                              {inactive && (
+                                <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600" title={`No match in the last ${LADDER_CONFIG.inactiveAfterDays} days`}>
+                                  Inactive
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-4 py-2"><TierBadge elo={player.elo} /></td>
+                          <td className="px-4 py-2">{player.elo}</td>
+                          <td className="px-4 py-2">{player.matchesPlayed}</td>
+                          <td className="px-4 py-2">{player.wins}</td>
+                          <td className="px-4 py-2">{player.losses}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
             </div>
           </div>
-        </div>
-      )}
+        )} />
       
-      {/* Match History View */}
-      {view === 'matches' && renderMatchHistory()}
+        {/* Match History View */}
+        <Route path="/matches" element={renderMatchHistory()} />
+
+        {/* Player Profile View */}
+        <Route path="/players/:id" element={!loading && <PlayerProfile players={players} seasonId={selectedSeasonId} dateTimeSettings={dateTimeSettings} />} />
+
+        {/* Head-to-Head View */}
+        <Route path="/head-to-head" element={!loading && <HeadToHead players={players} characters={characters} seasonId={selectedSeasonId} formatTimestamp={formatTimestamp} />} />
+
+        {/* Character Statistics View */}
+        <Route path="/characters" element={!loading && <CharacterStats players={players} characters={characters} seasonId={selectedSeasonId} />} />
+
+        {/* Tournament Brackets View */}
+        <Route path="/tournaments" element={!loading && (
+          <Tournaments
+            players={players}
+            seasonId={selectedSeasonId}
+            canManage={can('matches:record')}
+            recentMatches={matchHistory}
+            onSetReported={handleMatchRecorded}
+          />
+        )} />
+
+        {/* Round-Robin Pools View */}
+        <Route path="/pools" element={!loading && (
+          <RoundRobinPools
+            players={players}
+            seasonId={selectedSeasonId}
+            canManage={can('matches:record')}
+            recentMatches={matchHistory}
+            onSetReported={handleMatchRecorded}
+          />
+        )} />
+
+        <Route path="*" element={<Navigate to="/" replace />} />
+      </Routes>
     </div>
   );
 };
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { Player } from '../../services/playerService';
+import { getErrorMessage } from '../../services/apiClient';
+import { Challenge, acceptChallenge, createChallenge, fetchChallenges, forfeitChallenge } from '../../services/challengeService';
+import { LadderEntry } from '../../utils/ladder';
+import { CHALLENGE_CONFIG, getChallengeDeadline, getChallengeTargets, isOpenChallenge, isOverdue } from '../../utils/challenges';
+
+interface ChallengePanelProps {
+  players: Player[];
+  // Every active player in ELO order, ranked as on the ladder
+  entries: LadderEntry[];
+  // null is the current season
+  seasonId: number | null;
+  canManage: boolean;
+  // Newest recorded match; a new one may have settled a challenge
+  newestMatchId?: number;
+  onPlayChallenge: (challenge: Challenge) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SETTLED = 5;
+
+const describeDeadline = (challenge: Challenge) => {
+  const days = Math.ceil((new Date(challenge.deadline).getTime() - Date.now()) / DAY_MS);
+  if (isOverdue(challenge)) return `overdue by ${Math.max(1, -days)} day(s)`;
+  return days <= 1 ? 'due today' : `due in ${days} days`;
+};
+
+const ChallengePanel: React.FC<ChallengePanelProps> = ({ players, entries, seasonId, canManage, newestMatchId, onPlayChallenge }) => {
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [challengerId, setChallengerId] = useState('');
+  const [defenderId, setDefenderId] = useState('');
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  // Recorded matches settle challenges on the API side, so reload along with them
+  useEffect(() => {
+    let cancelled = false;
+    const loadChallenges = async () => {
+      try {
+        const result = await fetchChallenges(seasonId);
+        if (!cancelled) {
+          setChallenges(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError('Failed to fetch challenges: ' + getErrorMessage(err));
+      }
+    };
+
+    loadChallenges();
+    return () => {
+      cancelled = true;
+    };
+  }, [seasonId, newestMatchId]);
+
+  const getPlayerName = (id: string) => players.find(p => p.id.toString() === id)?.name || 'Unknown player';
+  const getRank = (id: string) => entries.find(e => e.player.id.toString() === id)?.rank;
+  const describePlayer = (id: string) => {
+    const rank = getRank(id);
+    return `${getPlayerName(id)}${rank ? ` (#${rank})` : ''}`;
+  };
+
+  const challenger = entries.find(e => e.player.id.toString() === challengerId)?.player;
+  const targets = challenger ? getChallengeTargets(challenger, entries, challenges) : [];
+
+  const open = challenges
+    .filter(isOpenChallenge)
+    .sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime());
+  const settled = challenges
+    .filter(c => !isOpenChallenge(c))
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, MAX_SETTLED);
+
+  const replaceChallenge = (updated: Challenge) =>
+    setChallenges(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const challenge = await createChallenge({
+        challengerId,
+        defenderId,
+        deadline: getChallengeDeadline().toISOString()
+      });
+      setChallenges(prev => [...prev, challenge]);
+      setChallengerId('');
+      setDefenderId('');
+      setShowCreate(false);
+      setError(null);
+    } catch (err) {
+      setError('Failed to issue challenge: ' + getErrorMessage(err));
+    }
+  };
+
+  const handleAccept = async (challenge: Challenge) => {
+    setBusyId(challenge.id);
+    try {
+      replaceChallenge(await acceptChallenge(challenge.id));
+      setError(null);
+    } catch (err) {
+      setError('Failed to accept challenge: ' + getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleForfeit = async (challenge: Challenge, playerId: string) => {
+    if (!playerId || !window.confirm(`${getPlayerName(playerId)} forfeits this challenge?`)) {
+      return;
+    }
+
+    setBusyId(challenge.id);
+    try {
+      replaceChallenge(await forfeitChallenge(challenge.id, playerId));
+      setError(null);
+    } catch (err) {
+      setError('Failed to forfeit challenge: ' + getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describeOutcome = (challenge: Challenge) => {
+    if (challenge.status === 'forfeited') {
+      return `${getPlayerName(challenge.forfeitedBy || '')} forfeited`;
+    }
+    return challenge.winnerId ? `${getPlayerName(challenge.winnerId)} won` : 'Played';
+  };
+
+  return (
+    <div className="bg-white p-4 rounded shadow">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Challenges</h2>
+        {canManage && (
+          <button
+            type="button"
+            className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm"
+            onClick={() => setShowCreate(!showCreate)}
+          >
+            {showCreate ? 'Hide' : 'New Challenge'}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-600 text-sm mb-2">{error}</p>}
+
+      {showCreate && canManage && (
+        <form onSubmit={handleCreate} className="space-y-2 mb-4">
+          <select
+            className="w-full p-2 border rounded"
+            value={challengerId}
+            onChange={(e) => {
+              setChallengerId(e.target.value);
+              setDefenderId('');
+            }}
+          >
+            <option value="">Challenger</option>
+            {entries.map(({ player, rank }) => (
+              <option key={player.id} value={player.id}>{rank ? `#${rank} ` : ''}{player.name}</option>
+            ))}
+          </select>
+          <select
+            className="w-full p-2 border rounded"
+            value={defenderId}
+            onChange={(e) => setDefenderId(e.target.value)}
+            disabled={targets.length === 0}
+          >
+            <option value="">
+              {challenger && targets.length === 0 ? 'Nobody in reach' : `Defender (up to ${CHALLENGE_CONFIG.maxRanksAbove} ranks above)`}
+            </option>
+            {targets.map(({ player, rank }) => (
+              <option key={player.id} value={player.id}>#{rank} {player.name}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="w-full bg-blue-600 text-white px-4 py-2 rounded disabled:bg-gray-400"
+            disabled={!challengerId || !defenderId}
+          >
+            Issue Challenge ({CHALLENGE_CONFIG.deadlineDays} days to play)
+          </button>
+        </form>
+      )}
+
+      {open.length === 0 ? (
+        <p className="text-gray-500 text-center py-2">No pending challenges.</p>
+      ) : (
+        <div className="divide-y">
+          {open.map(challenge => (
+            <div key={challenge.id} className="py-2 text-sm">
+              <div className="flex justify-between">
+                <span>
+                  <span className="font-medium">{describePlayer(challenge.challengerId)}</span>
+                  <span className="text-gray-500"> challenges </span>
+                  <span className="font-medium">{describePlayer(challenge.defenderId)}</span>
+                </span>
+                <span className={isOverdue(challenge) ? 'text-red-600' : 'text-gray-500'}>{describeDeadline(challenge)}</span>
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-2 mt-1">
+                  {challenge.status === 'pending' ? (
+                    <button
+                      className="px-2 py-1 bg-blue-600 text-white text-xs rounded disabled:bg-gray-400"
+                      onClick={() => handleAccept(challenge)}
+                      disabled={busyId === challenge.id}
+                    >
+                      Accept
+                    </button>
+                  ) : (
+                    <button
+                      className="px-2 py-1 bg-green-600 text-white text-xs rounded"
+                      onClick={() => onPlayChallenge(challenge)}
+                    >
+                      Record Set
+                    </button>
+                  )}
+                  <select
+                    className={`p-1 border rounded text-xs ${isOverdue(challenge) ? 'border-red-500' : ''}`}
+                    value=""
+                    onChange={(e) => handleForfeit(challenge, e.target.value)}
+                    disabled={busyId === challenge.id}
+                  >
+                    <option value="">Forfeit...</option>
+                    <option value={challenge.challengerId}>{getPlayerName(challenge.challengerId)} forfeits</option>
+                    <option value={challenge.defenderId}>{getPlayerName(challenge.defenderId)} forfeits</option>
+                  </select>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {settled.length > 0 && (
+        <details className="text-sm mt-3">
+          <summary className="cursor-pointer text-gray-600">Recently settled</summary>
+          <ul className="mt-1 space-y-1">
+            {settled.map(challenge => (
+              <li key={challenge.id} className="flex justify-between text-gray-600">
+                <span>{getPlayerName(challenge.challengerId)} vs {getPlayerName(challenge.defenderId)}</span>
+                <span>{describeOutcome(challenge)}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default ChallengePanel;
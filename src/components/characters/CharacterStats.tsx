@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Player } from '../../services/playerService';
+import { Character } from '../../services/characterService';
+import { Match, filterAllMatches } from '../../services/matchService';
+import { getErrorMessage } from '../../services/apiClient';
+import { CharacterStats as CharacterStatsRow, computeCharacterStats } from '../../utils/characterStats';
+
+interface CharacterStatsProps {
+  players: Player[];
+  characters: Character[];
+  // null is the current season
+  seasonId: number | null;
+}
+
+type SortColumn = 'mains' | 'averageElo' | 'topElo' | 'games' | 'winRate';
+
+const SORT_LABELS: Record<SortColumn, string> = {
+  mains: 'Mains',
+  averageElo: 'Avg ELO',
+  topElo: 'Top ELO',
+  games: 'Games',
+  winRate: 'Win Rate',
+};
+
+// Win rates over fewer games than this are too noisy to headline
+const MIN_GAMES_FOR_WIN_RATE = 10;
+
+const sortValue = (stats: CharacterStatsRow, column: SortColumn): number => {
+  if (column === 'mains') return stats.mains.length;
+  return stats[column] ?? -1;
+};
+
+const CharacterIcon: React.FC<{ character: Character }> = ({ character }) => (
+  <img
+    src={`/icons/stock/${character.icon_name}1.png`}
+    alt={character.name}
+    className="w-8 h-8 rounded-full object-cover"
+    onError={(e) => {
+      (e.target as HTMLImageElement).src = '/icons/stock/default1.png';
+    }}
+  />
+);
+
+const CharacterStats: React.FC<CharacterStatsProps> = ({ players, characters, seasonId }) => {
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [loadingMatches, setLoadingMatches] = useState(false);
+  const [matchesError, setMatchesError] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<SortColumn>('mains');
+  const [showUnused, setShowUnused] = useState(false);
+
+  // Win rates need every recorded match of the season
+  useEffect(() => {
+    let cancelled = false;
+    const loadMatches = async () => {
+      setLoadingMatches(true);
+      setMatchesError(null);
+      try {
+        const result = await filterAllMatches({ seasonId: seasonId ?? undefined });
+        if (!cancelled) setMatches(result);
+      } catch (err) {
+        if (cancelled) return;
+        setMatchesError('Failed to fetch matches: ' + getErrorMessage(err));
+        setMatches([]);
+      }
+      if (!cancelled) setLoadingMatches(false);
+    };
+
+    loadMatches();
+    return () => {
+      cancelled = true;
+    };
+  }, [seasonId]);
+
+  const stats = useMemo(
+    () => computeCharacterStats(characters, players, matches),
+    [characters, players, matches]
+  );
+
+  const shown = stats
+    .filter(s => showUnused || s.mains.length > 0 || s.games > 0)
+    .sort((a, b) => sortValue(b, sortBy) - sortValue(a, sortBy) || a.character.name.localeCompare(b.character.name));
+
+  const mostMained = [...stats].sort((a, b) => b.mains.length - a.mains.length)[0];
+  const mostPlayed = [...stats].sort((a, b) => b.games - a.games)[0];
+  const bestWinRate = stats
+    .filter(s => s.games >= MIN_GAMES_FOR_WIN_RATE)
+    .sort((a, b) => (b.winRate ?? 0) - (a.winRate ?? 0))[0];
+
+  const highlights = [
+    { label: 'Most mained', stats: mostMained, value: mostMained && `${mostMained.mains.length} players` },
+    { label: 'Most played', stats: mostPlayed, value: mostPlayed && `${mostPlayed.games} games` },
+    { label: 'Best win rate', stats: bestWinRate, value: bestWinRate && `${bestWinRate.winRate?.toFixed(1)}%` },
+  ];
+
+  return (
+    <div className="bg-white p-4 rounded shadow">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Characters</h2>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={showUnused} onChange={(e) => setShowUnused(e.target.checked)} />
+          Show unused characters
+        </label>
+      </div>
+
+      {matchesError && <p className="text-red-600 mb-4">{matchesError}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+        {highlights.map(({ label, stats: highlight, value }) => (
+          <div key={label} className="bg-gray-50 border rounded p-3 flex items-center gap-3">
+            {highlight && (highlight.mains.length > 0 || highlight.games > 0) ? (
+              <>
+                <CharacterIcon character={highlight.character} />
+                <div>
+                  <div className="text-sm text-gray-500">{label}</div>
+                  <div className="font-medium">{highlight.character.name} <span className="text-gray-500 text-sm">({value})</span></div>
+                </div>
+              </>
+            ) : (
+              <div className="text-sm text-gray-500">{label}: not enough data</div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {loadingMatches && <p className="text-gray-500 mb-2">Loading matches...</p>}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="px-4 py-2 text-left">Character</th>
+              {(Object.keys(SORT_LABELS) as SortColumn[]).map(column => (
+                <th
+                  key={column}
+                  className="px-4 py-2 text-left cursor-pointer hover:bg-gray-200"
+                  onClick={() => setSortBy(column)}
+                >
+                  {SORT_LABELS[column]} {sortBy === column && '↓'}
+                </th>
+              ))}
+              <th className="px-4 py-2 text-left">Best Player</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((row, index) => (
+              <tr key={row.character.id} className={index % 2 === 0 ? 'bg-gray-50' : 'bg-white'}>
+                <td className="px-4 py-2">
+                  <div className="flex items-center gap-3">
+                    <CharacterIcon character={row.character} />
+                    <span className="font-medium">{row.character.name}</span>
+                  </div>
+                </td>
+                <td className="px-4 py-2" title={row.mains.map(p => p.name).join(', ')}>{row.mains.length}</td>
+                <td className="px-4 py-2">{row.averageElo ?? '-'}</td>
+                <td className="px-4 py-2">{row.topElo ?? '-'}</td>
+                <td className="px-4 py-2">{row.games}</td>
+                <td className="px-4 py-2">
+                  {row.winRate === null ? '-' : `${row.winRate.toFixed(1)}%`}
+                  {row.games > 0 && <span className="text-xs text-gray-500"> ({row.wins}-{row.games - row.wins})</span>}
+                </td>
+                <td className="px-4 py-2">
+                  {row.bestPlayer ? (
+                    <Link to={`/players/${row.bestPlayer.id}`} className="hover:underline">{row.bestPlayer.name}</Link>
+                  ) : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {shown.length === 0 && !loadingMatches && (
+          <p className="text-gray-500 text-center py-4">No characters have been mained or played yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CharacterStats;
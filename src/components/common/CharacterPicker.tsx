@@ -0,0 +1,68 @@
+import React from 'react';
+import { Character } from '../../services/characterService';
+
+interface CharacterPickerProps {
+  characters: Character[];
+  characterId: number | null;
+  skin: number;
+  onChange: (characterId: number | null, skin: number) => void;
+  placeholder?: string;
+}
+
+const SKINS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+const CharacterPicker: React.FC<CharacterPickerProps> = ({
+  characters,
+  characterId,
+  skin,
+  onChange,
+  placeholder = 'Select Character'
+}) => {
+  const selectedChar = characters.find(c => c.id === characterId);
+
+  return (
+    <div className="flex gap-2" style={{ justifyContent: 'space-between' }}>
+      <select
+        className="p-2 border flex-1 rounded"
+        value={characterId || ''}
+        onChange={(e) => onChange(e.target.value ? parseInt(e.target.value) : null, 1)}
+      >
+        <option value="">{placeholder}</option>
+        {characters.map(character => (
+          <option key={character.id} value={character.id}>
+            {character.name}
+          </option>
+        ))}
+      </select>
+
+      {characterId && (
+        <div className="flex">
+          {SKINS.map((skinNumber) => {
+            const iconSrc = selectedChar ? `/icons/stock/${selectedChar.icon_name}${skinNumber}.png` : '/icons/stock/default1.png';
+
+            return (
+              <button
+                key={skinNumber}
+                type="button"
+                className={`p-1 border ${skinNumber === 1 ? 'rounded-l' : ''} ${skinNumber === 8 ? 'rounded-r' : ''} ${skin === skinNumber ? 'bg-blue-100 border-blue-500' : 'bg-white'}`}
+                onClick={() => onChange(characterId, skinNumber)}
+              >
+                <img
+                  src={iconSrc}
+                  alt={`${selectedChar?.name || 'Character'} Skin ${skinNumber}`}
+                  className="w-8 h-8 rounded-full object-cover"
+                  onError={(e) => {
+                    const target = e.target as HTMLImageElement;
+                    target.src = '/icons/stock/default1.png';
+                  }}
+                />
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CharacterPicker;
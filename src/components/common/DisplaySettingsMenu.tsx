@@ -0,0 +1,43 @@
+import React from 'react';
+import { DisplaySettings } from '../../hooks/useDisplaySettings';
+import { LOCALES, TIME_ZONES, getBrowserLocale, getLocalTimeZone } from '../../utils/dateTime';
+
+interface DisplaySettingsMenuProps {
+  settings: DisplaySettings;
+  onChange: (changes: DisplaySettings) => void;
+}
+
+// Timezone and locale pickers; the empty option follows the browser
+const DisplaySettingsMenu: React.FC<DisplaySettingsMenuProps> = ({ settings, onChange }) => {
+  const localTimeZone = getLocalTimeZone();
+  const browserLocale = getBrowserLocale();
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <select
+        className="p-1 border rounded"
+        value={settings.timeZone || ''}
+        onChange={(e) => onChange({ timeZone: e.target.value || undefined })}
+        title="Timezone for dates and times"
+      >
+        <option value="">{localTimeZone} (local)</option>
+        {TIME_ZONES.filter(zone => zone !== localTimeZone).map(zone => (
+          <option key={zone} value={zone}>{zone}</option>
+        ))}
+      </select>
+      <select
+        className="p-1 border rounded"
+        value={settings.locale || ''}
+        onChange={(e) => onChange({ locale: e.target.value || undefined })}
+        title="Date and time format"
+      >
+        <option value="">{LOCALES[browserLocale] || browserLocale} (browser)</option>
+        {Object.keys(LOCALES).filter(locale => locale !== browserLocale).map(locale => (
+          <option key={locale} value={locale}>{LOCALES[locale]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default DisplaySettingsMenu;
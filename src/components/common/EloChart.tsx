@@ -0,0 +1,69 @@
+import React from 'react';
+import { EloPoint } from '../../utils/eloHistory';
+import { DateTimeSettings, formatDate } from '../../utils/dateTime';
+
+interface EloChartProps {
+  points: EloPoint[];
+  dateTimeSettings: DateTimeSettings;
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 44 };
+
+const EloChart: React.FC<EloChartProps> = ({ points, dateTimeSettings, height = 220 }) => {
+  // e.g. "May 1", in the viewer's zone and locale
+  const formatShortDate = (timestamp: string) =>
+    formatDate(timestamp, dateTimeSettings, { month: 'short', day: 'numeric' });
+
+  if (points.length < 2) {
+    return <p className="text-gray-500 text-center py-4">Not enough matches to chart yet.</p>;
+  }
+
+  const times = points.map(p => new Date(p.timestamp).getTime());
+  const elos = points.map(p => p.elo);
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  // Pad the vertical range so a flat line doesn't sit on the border
+  const minElo = Math.min(...elos) - 10;
+  const maxElo = Math.max(...elos) + 10;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  // Spread points evenly when they all share a timestamp
+  const x = (time: number, index: number) =>
+    PADDING.left + (maxTime === minTime
+      ? (index / (points.length - 1)) * plotWidth
+      : ((time - minTime) / (maxTime - minTime)) * plotWidth);
+  const y = (elo: number) =>
+    PADDING.top + (1 - (elo - minElo) / (maxElo - minElo)) * plotHeight;
+
+  const coords = points.map((p, i) => ({ x: x(times[i], i), y: y(p.elo), point: p }));
+  const path = coords.map((c, i) => `${i === 0 ? 'M' : 'L'}${c.x.toFixed(1)},${c.y.toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" role="img" aria-label="ELO history">
+      {/* Axes */}
+      <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={height - PADDING.bottom} stroke="#d1d5db" />
+      <line x1={PADDING.left} y1={height - PADDING.bottom} x2={WIDTH - PADDING.right} y2={height - PADDING.bottom} stroke="#d1d5db" />
+
+      {/* Axis labels */}
+      <text x={PADDING.left - 6} y={PADDING.top + 4} textAnchor="end" fontSize="11" fill="#6b7280">{Math.round(maxElo)}</text>
+      <text x={PADDING.left - 6} y={height - PADDING.bottom} textAnchor="end" fontSize="11" fill="#6b7280">{Math.round(minElo)}</text>
+      <text x={PADDING.left} y={height - 6} fontSize="11" fill="#6b7280">{formatShortDate(points[0].timestamp)}</text>
+      <text x={WIDTH - PADDING.right} y={height - 6} textAnchor="end" fontSize="11" fill="#6b7280">
+        {formatShortDate(points[points.length - 1].timestamp)}
+      </text>
+
+      <path d={path} fill="none" stroke="#2563eb" strokeWidth="2" />
+      {coords.map((c, i) => (
+        <circle key={i} cx={c.x} cy={c.y} r="3" fill="#2563eb">
+          <title>{`${formatShortDate(c.point.timestamp)}: ${c.point.elo}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default EloChart;
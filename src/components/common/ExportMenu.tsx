@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { ExportFormat } from '../../utils/export';
+import { TIME_ZONES, getLocalTimeZone } from '../../utils/dateTime';
+
+interface ExportMenuProps {
+  // Offer a timezone for exported timestamps
+  withTimeZone?: boolean;
+  // Timezone to select, e.g. the display setting; the browser's own if not given
+  defaultTimeZone?: string;
+  onExport: (format: ExportFormat, timeZone: string) => void | Promise<void>;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ withTimeZone = false, defaultTimeZone, onExport }) => {
+  const localTimeZone = getLocalTimeZone();
+  const timeZones = [localTimeZone, ...TIME_ZONES.filter(zone => zone !== localTimeZone)];
+
+  const [timeZone, setTimeZone] = useState(defaultTimeZone || localTimeZone);
+  const [exporting, setExporting] = useState(false);
+
+  // Follow changes to the display timezone; a zone picked here lasts until then
+  useEffect(() => {
+    if (defaultTimeZone) setTimeZone(defaultTimeZone);
+  }, [defaultTimeZone]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      await onExport(format, timeZone);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-gray-600">Export</span>
+      {withTimeZone && (
+        <select
+          className="p-1 border rounded"
+          value={timeZone}
+          onChange={(e) => setTimeZone(e.target.value)}
+          title="Timezone for exported timestamps"
+        >
+          {timeZones.map(zone => (
+            <option key={zone} value={zone}>{zone === localTimeZone ? `${zone} (local)` : zone}</option>
+          ))}
+        </select>
+      )}
+      {(['csv', 'json'] as ExportFormat[]).map(format => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={exporting}
+          className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+        >
+          {format.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ExportMenu;
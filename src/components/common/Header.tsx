@@ -1,22 +1,71 @@
 import React from 'react';
-import { Link } from 'react-router-dom';
+import { NavLink } from 'react-router-dom';
+import { DisplaySettings } from '../../hooks/useDisplaySettings';
+import DisplaySettingsMenu from './DisplaySettingsMenu';
 
-const Header: React.FC = () => {
+interface HeaderProps {
+    isLoggedIn: boolean;
+    username?: string;
+    roleLabel?: string;
+    onLogout: () => void;
+    displaySettings: DisplaySettings;
+    onDisplaySettingsChange: (changes: DisplaySettings) => void;
+}
+
+const navLinkClass = ({ isActive }: { isActive: boolean }) =>
+    `px-4 py-2 mx-2 rounded ${isActive ? 'bg-blue-600 text-white' : 'bg-gray-200'}`;
+
+const Header: React.FC<HeaderProps> = ({ isLoggedIn, username, roleLabel, onLogout, displaySettings, onDisplaySettingsChange }) => {
     return (
         <header>
-            <h1>My React App</h1>
-            <nav>
-                <ul>
-                    <li>
-                        <Link to="/">Home</Link>
-                    </li>
-                    <li>
-                        <Link to="/about">About</Link>
-                    </li>
-                </ul>
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-3xl font-bold text-blue-800">ELO Ladder Management</h1>
+                <div className="flex items-center gap-3">
+                    <DisplaySettingsMenu settings={displaySettings} onChange={onDisplaySettingsChange} />
+                    {isLoggedIn && (
+                        <div className="flex items-center gap-3">
+                            {username && (
+                                <span className="text-gray-700">
+                                    {username}
+                                    {roleLabel && (
+                                        <span className="ml-2 px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">{roleLabel}</span>
+                                    )}
+                                </span>
+                            )}
+                            <button
+                                onClick={onLogout}
+                                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded"
+                            >
+                                Logout
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Navigation */}
+            <nav className="flex justify-center mb-6">
+                <NavLink to="/" end className={navLinkClass}>
+                    Ladder
+                </NavLink>
+                <NavLink to="/matches" className={navLinkClass}>
+                    Match History
+                </NavLink>
+                <NavLink to="/head-to-head" className={navLinkClass}>
+                    Head-to-Head
+                </NavLink>
+                <NavLink to="/characters" className={navLinkClass}>
+                    Characters
+                </NavLink>
+                <NavLink to="/tournaments" className={navLinkClass}>
+                    Tournaments
+                </NavLink>
+                <NavLink to="/pools" className={navLinkClass}>
+                    Pools
+                </NavLink>
             </nav>
         </header>
     );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
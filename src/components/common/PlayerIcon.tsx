@@ -1,18 +1,26 @@
 import React from 'react';
 import { Player } from '../../services/playerService';
+import { getTier } from '../../utils/tiers';
 
 interface PlayerIconProps {
   player: Player;
   size?: 'small' | 'medium' | 'large';
   className?: string;
+  // Override the player's main, e.g. with the character played in a specific match
+  character?: { name: string; icon_name: string };
+  skin?: number;
 }
 
 const PlayerIcon: React.FC<PlayerIconProps> = ({ 
   player, 
   size = 'medium', 
-  className = '' 
+  className = '',
+  character,
+  skin
 }) => {
-  const iconPath = `/icons/stock/${player.mainCharacter.icon_name}${player.skin}.png`;
+  const shownCharacter = character || player.mainCharacter;
+  const shownSkin = character ? skin || 1 : player.skin;
+  const iconPath = `/icons/stock/${shownCharacter.icon_name}${shownSkin}.png`;
   
   const sizeClasses = {
     small: 'w-6 h-6',
@@ -23,7 +31,8 @@ const PlayerIcon: React.FC<PlayerIconProps> = ({
   return (
     <img
       src={iconPath}
-      alt={`${player.mainCharacter.name} (${player.name})`}
+      alt={`${shownCharacter.name} (${player.name})`}
+      title={`${player.name} – ${getTier(player.elo).name} (${player.elo} ELO)`}
       className={`${sizeClasses[size]} rounded-full object-cover ${className}`}
       onError={(e) => {
         // Fallback to a default icon if the specific icon doesn't exist
@@ -0,0 +1,45 @@
+import React from 'react';
+
+interface SessionWarningBannerProps {
+  remainingTime: number;
+  canRenew: boolean;
+  onRenew: () => void;
+  onLogout: () => void;
+}
+
+const formatRemaining = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+const SessionWarningBanner: React.FC<SessionWarningBannerProps> = ({
+  remainingTime,
+  canRenew,
+  onRenew,
+  onLogout
+}) => {
+  return (
+    <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 p-4 mb-4 flex justify-between items-center" role="alert">
+      <p>
+        Your session ends in <span className="font-bold">{formatRemaining(remainingTime)}</span>.
+        {!canRenew && ' Save your work and login again to continue.'}
+      </p>
+      <div className="flex gap-2">
+        {canRenew && (
+          <button
+            onClick={onRenew}
+            className="px-3 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700"
+          >
+            Stay signed in
+          </button>
+        )}
+        <button
+          onClick={onLogout}
+          className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+        >
+          Logout
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionWarningBanner;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { TierChange, getTier } from '../../utils/tiers';
+
+interface TierBadgeProps {
+  elo: number;
+  className?: string;
+}
+
+const TierBadge: React.FC<TierBadgeProps> = ({ elo, className = '' }) => {
+  const tier = getTier(elo);
+  return (
+    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${tier.badgeClass} ${className}`}>
+      {tier.name}
+    </span>
+  );
+};
+
+// "▲ Gold" / "▼ Silver" next to a player whose match moved them between tiers
+export const TierChangeMarker: React.FC<{ change: TierChange | null }> = ({ change }) => {
+  if (!change) return null;
+  const promoted = change.direction === 'promoted';
+  return (
+    <span
+      className={`text-xs font-medium ${promoted ? 'text-green-700' : 'text-red-700'}`}
+      title={`${promoted ? 'Promoted' : 'Demoted'} from ${change.from.name} to ${change.to.name}`}
+    >
+      {promoted ? '▲' : '▼'} {change.to.name}
+    </span>
+  );
+};
+
+export default TierBadge;
@@ -0,0 +1,260 @@
+import React, { useMemo, useState } from 'react';
+import { Player, addPlayer } from '../../services/playerService';
+import { DEFAULT_BASE_ELO } from '../../services/seasonService';
+import { getErrorMessage } from '../../services/apiClient';
+import { NameMatch, buildImportPreview, matchPlayerName, recordImportedMatch } from '../../utils/matchImport';
+import { BRACKET_SOURCE_LABELS, BracketImportResult, parseBracketExport } from '../../utils/bracketImport';
+
+interface BracketImportProps {
+  players: Player[];
+  // Whether unknown entrants may be added to the ladder
+  canAddPlayers: boolean;
+  onImported: () => void;
+  onError: (message: string) => void;
+}
+
+// Select value for entrants that should be added to the ladder as new players
+const NEW_PLAYER = 'new';
+
+const BracketImport: React.FC<BracketImportProps> = ({ players, canAddPlayers, onImported, onError }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [bracket, setBracket] = useState<BracketImportResult | null>(null);
+  // Choice for each entrant: a player id, NEW_PLAYER or '' to skip their sets
+  const [entrantChoices, setEntrantChoices] = useState<Record<string, string>>({});
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  // Near misses are only suggested, so a new entrant one typo away from an
+  // existing player isn't merged into them without anyone noticing
+  const suggestions = useMemo(
+    () => Object.fromEntries((bracket?.entrants || []).map(name => [name, matchPlayerName(name, players)])),
+    [bracket, players]
+  );
+  const defaultChoices = useMemo(() => {
+    const choices: Record<string, string> = {};
+    Object.entries(suggestions).forEach(([name, suggestion]) => {
+      choices[name] = suggestion?.exact ? suggestion.player.id.toString() : '';
+    });
+    return choices;
+  }, [suggestions]);
+  const choices = { ...defaultChoices, ...entrantChoices };
+
+  // Stand-ins for players that will be created, so the preview can rate them
+  const newPlayers: Player[] = Object.keys(choices)
+    .filter(name => choices[name] === NEW_PLAYER)
+    .map((name, index) => ({
+      id: -(index + 1),
+      name,
+      elo: DEFAULT_BASE_ELO,
+      matchesPlayed: 0,
+      wins: 0,
+      losses: 0,
+      skin: 1,
+      mainCharacter: { id: 0, name: '', icon_name: '' }
+    }));
+
+  // Every choice has been made or confirmed by hand, or is an exact match
+  const resolvePlayer = (name: string): NameMatch | undefined => {
+    const player = choices[name] === NEW_PLAYER
+      ? newPlayers.find(p => p.name === name)
+      : players.find(p => p.id.toString() === choices[name]);
+    return player && { player, exact: true };
+  };
+
+  const preview = bracket ? buildImportPreview(bracket.rows, [...players, ...newPlayers], resolvePlayer) : [];
+  const importable = preview.filter(item => !item.problem);
+
+  const reset = () => {
+    setBracket(null);
+    setEntrantChoices({});
+    setProgress(0);
+  };
+
+  const handleFile = async (file?: File) => {
+    reset();
+    if (!file) return;
+    try {
+      setBracket(parseBracketExport(await file.text()));
+    } catch (err) {
+      onError('Failed to read bracket: ' + getErrorMessage(err));
+    }
+  };
+
+  // Create the confirmed new players first, then record the sets in bracket order
+  const handleImport = async () => {
+    const toCreate = newPlayers.filter(p => importable.some(({ winner, loser }) => winner === p || loser === p));
+    const message = `Record ${importable.length} set(s)` +
+      (toCreate.length > 0 ? ` and add ${toCreate.length} new player(s): ${toCreate.map(p => p.name).join(', ')}` : '') + '?';
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    setImporting(true);
+    let recorded = 0;
+    try {
+      const created = new Map<number, Player>();
+      for (const placeholder of toCreate) {
+        const player = await addPlayer({ name: placeholder.name });
+        created.set(placeholder.id, player);
+        // Later attempts should use the player rather than create them again
+        setEntrantChoices(prev => ({ ...prev, [placeholder.name]: player.id.toString() }));
+      }
+      const playerId = (player?: Player) => (created.get((player as Player).id) || (player as Player)).id.toString();
+
+      for (const { row, winner, loser } of importable) {
+        await recordImportedMatch(row, playerId(winner), playerId(loser));
+        recorded++;
+        setProgress(recorded);
+      }
+      reset();
+      setExpanded(false);
+    } catch (err) {
+      onError(`Bracket import stopped after ${recorded} set(s): ${getErrorMessage(err)}`);
+      // Drop what was recorded so retrying doesn't submit it twice
+      const done = new Set(importable.slice(0, recorded).map(item => item.row));
+      setBracket(prev => prev && { ...prev, rows: prev.rows.filter(row => !done.has(row)) });
+      setProgress(0);
+    } finally {
+      setImporting(false);
+      onImported();
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded shadow">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Import Bracket</h2>
+        <button
+          type="button"
+          className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm"
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? 'Hide' : 'Import JSON'}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          <div>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={importing}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              A start.gg event (sets with slots and entrants) or a Challonge tournament exported with participants and matches.
+            </p>
+          </div>
+
+          {bracket && (
+            <p className="text-sm">
+              <span className="font-medium">{bracket.tournamentName || 'Bracket'}</span>
+              <span className="text-gray-500"> ({BRACKET_SOURCE_LABELS[bracket.source]}): {bracket.rows.length} set(s) to record, {bracket.skipped.length} skipped</span>
+            </p>
+          )}
+
+          {bracket && bracket.entrants.length > 0 && (
+            <div>
+              <h3 className="font-medium mb-2">Entrants</h3>
+              <div className="space-y-1 text-sm overflow-y-auto max-h-48">
+                {bracket.entrants.map(name => {
+                  const suggestion = suggestions[name];
+                  return (
+                    <div key={name} className="flex items-center gap-2">
+                      <span className="w-1/3 truncate" title={name}>{name}</span>
+                      <select
+                        className={`flex-1 p-1 border rounded ${choices[name] ? '' : 'border-red-500'}`}
+                        value={choices[name]}
+                        onChange={(e) => setEntrantChoices(prev => ({ ...prev, [name]: e.target.value }))}
+                      >
+                        <option value="">Skip their sets</option>
+                        {canAddPlayers && <option value={NEW_PLAYER}>Add "{name}" as a new player</option>}
+                        {players.map(p => (
+                          <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                      </select>
+                      {suggestion && !suggestion.exact && choices[name] === '' && (
+                        <button
+                          type="button"
+                          className="px-2 py-0.5 text-xs rounded bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
+                          onClick={() => setEntrantChoices(prev => ({ ...prev, [name]: suggestion.player.id.toString() }))}
+                          title="Only matched approximately"
+                        >
+                          {suggestion.player.name}?
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {preview.length > 0 && (
+            <div>
+              <h3 className="font-medium mb-2">Sets (bracket order)</h3>
+              <div className="overflow-y-auto max-h-64 text-sm">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="px-2 py-1 text-left">#</th>
+                      <th className="px-2 py-1 text-left">Winner</th>
+                      <th className="px-2 py-1 text-left">Loser</th>
+                      <th className="px-2 py-1 text-left">Score</th>
+                      <th className="px-2 py-1 text-left">Projected ELO</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map(({ row, winner, loser, winnerElo, loserElo, eloChange, problem }) => (
+                      <tr key={row.line} className={`border-b ${problem ? 'text-gray-400' : ''}`}>
+                        <td className="px-2 py-1">{row.line}</td>
+                        <td className="px-2 py-1">{winner?.name || row.winnerName}</td>
+                        <td className="px-2 py-1">{loser?.name || row.loserName}</td>
+                        <td className="px-2 py-1">{row.winnerScore !== undefined ? `${row.winnerScore}-${row.loserScore}` : '-'}</td>
+                        <td className="px-2 py-1">
+                          {problem ? (
+                            <span className="text-red-600">{problem}</span>
+                          ) : (
+                            <>
+                              <span className="text-green-600">{winnerElo} → {(winnerElo as number) + (eloChange as number)}</span>
+                              {' / '}
+                              <span className="text-red-600">{loserElo} → {(loserElo as number) - (eloChange as number)}</span>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {bracket && bracket.skipped.length > 0 && (
+            <details className="text-sm">
+              <summary className="cursor-pointer text-gray-600">{bracket.skipped.length} skipped set(s)</summary>
+              <ul className="mt-1 ml-5 list-disc text-gray-500">
+                {bracket.skipped.map(set => (
+                  <li key={set.position}>{set.reason}: {set.description}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          {preview.length > 0 && (
+            <button
+              className="w-full bg-green-600 text-white px-4 py-2 rounded disabled:bg-gray-400"
+              onClick={handleImport}
+              disabled={importing || importable.length === 0}
+            >
+              {importing ? `Recording ${progress}/${importable.length}...` : `Import ${importable.length} Set(s)`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BracketImport;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Player } from '../../services/playerService';
+import { getWinProbability, isProvisional, projectMatch } from '../../utils/rating';
+
+interface EloPreviewProps {
+  player1: Player;
+  player2: Player;
+}
+
+// Projected outcome of the match for each possible winner
+const EloPreview: React.FC<EloPreviewProps> = ({ player1, player2 }) => {
+  const outcomes = [
+    { winner: player1, loser: player2 },
+    { winner: player2, loser: player1 },
+  ];
+
+  return (
+    <div className="bg-gray-50 border rounded p-3 text-sm">
+      <h3 className="font-medium mb-2">Projected ELO</h3>
+      <div className="grid grid-cols-2 gap-3">
+        {outcomes.map(({ winner, loser }) => {
+          const projection = projectMatch(winner, loser);
+          const winProbability = getWinProbability(winner.elo, loser.elo) * 100;
+          return (
+            <div key={winner.id}>
+              <div className="font-medium">
+                {winner.name} wins <span className="text-gray-500">({winProbability.toFixed(0)}%)</span>
+              </div>
+              <div className="text-green-600">
+                {winner.name}: {winner.elo} → {projection.winnerNewElo} (+{projection.eloChange})
+              </div>
+              <div className="text-red-600">
+                {loser.name}: {loser.elo} → {projection.loserNewElo} (-{projection.eloChange})
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {(isProvisional(player1) || isProvisional(player2)) && (
+        <p className="text-xs text-gray-500 mt-2">Provisional rating: ELO moves faster for new players.</p>
+      )}
+    </div>
+  );
+};
+
+export default EloPreview;
@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { Player } from '../../services/playerService';
+import { Character } from '../../services/characterService';
+import { getErrorMessage } from '../../services/apiClient';
+import {
+  ImportedMatchRow,
+  MATCH_CSV_COLUMNS,
+  NameMatch,
+  buildImportPreview,
+  matchPlayerName,
+  parseMatchCsv,
+  recordImportedMatch
+} from '../../utils/matchImport';
+
+interface MatchImportProps {
+  players: Player[];
+  characters: Character[];
+  onImported: () => void;
+  onError: (message: string) => void;
+}
+
+const MatchImport: React.FC<MatchImportProps> = ({ players, characters, onImported, onError }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [rows, setRows] = useState<ImportedMatchRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  // Player chosen or confirmed for each name in the file, by name; '' leaves the name unmatched
+  const [nameOverrides, setNameOverrides] = useState<Record<string, string>>({});
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const names = useMemo(
+    () => Array.from(new Set(rows.flatMap(row => [row.winnerName, row.loserName]))).sort(),
+    [rows]
+  );
+  const suggestions = useMemo(
+    () => Object.fromEntries(names.map(name => [name, matchPlayerName(name, players)])),
+    [names, players]
+  );
+
+  // A player picked by hand counts as confirmed; fuzzy suggestions still need confirming
+  const resolvePlayer = (name: string): NameMatch | null | undefined => {
+    if (name in nameOverrides) {
+      const player = players.find(p => p.id.toString() === nameOverrides[name]);
+      return player && { player, exact: true };
+    }
+    return suggestions[name];
+  };
+
+  const preview = buildImportPreview(rows, players, resolvePlayer);
+  const importable = preview.filter(item => !item.problem);
+
+  const reset = () => {
+    setRows([]);
+    setParseErrors([]);
+    setNameOverrides({});
+    setProgress(0);
+  };
+
+  const handleFile = async (file?: File) => {
+    reset();
+    if (!file) return;
+    const result = parseMatchCsv(await file.text(), characters);
+    setRows(result.rows);
+    setParseErrors(result.errors);
+  };
+
+  // Record the matches oldest first so each one is rated on the ladder as it stood then
+  const handleImport = async () => {
+    if (!window.confirm(`Record ${importable.length} match(es)? Rows with problems will be skipped.`)) {
+      return;
+    }
+
+    setImporting(true);
+    let recorded = 0;
+    try {
+      for (const { row, winner, loser } of importable) {
+        await recordImportedMatch(row, (winner as Player).id.toString(), (loser as Player).id.toString());
+        recorded++;
+        setProgress(recorded);
+      }
+      reset();
+      setExpanded(false);
+    } catch (err) {
+      const failed = importable[recorded].row;
+      onError(`Import stopped at line ${failed.line} after ${recorded} match(es): ${getErrorMessage(err)}`);
+      // Drop what was recorded so retrying doesn't submit it twice
+      const done = new Set(importable.slice(0, recorded).map(item => item.row));
+      setRows(prev => prev.filter(row => !done.has(row)));
+      setProgress(0);
+    } finally {
+      setImporting(false);
+      if (recorded > 0) onImported();
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded shadow">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Import Matches</h2>
+        <button
+          type="button"
+          className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm"
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? 'Hide' : 'Import CSV'}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          <div>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={importing}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Columns: {MATCH_CSV_COLUMNS.join(', ')}. Score (e.g. 2-1) and characters are optional.
+            </p>
+          </div>
+
+          {parseErrors.length > 0 && (
+            <div className="bg-yellow-50 border-l-4 border-yellow-500 text-yellow-800 p-3 text-sm">
+              <p className="font-medium">{parseErrors.length} row(s) could not be read and will be skipped:</p>
+              <ul className="list-disc ml-5">
+                {parseErrors.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {names.length > 0 && (
+            <div>
+              <h3 className="font-medium mb-2">Players</h3>
+              <div className="space-y-1 text-sm">
+                {names.map(name => {
+                  const suggestion = suggestions[name];
+                  const player = resolvePlayer(name)?.player;
+                  return (
+                    <div key={name} className="flex items-center gap-2">
+                      <span className="w-1/3 truncate" title={name}>{name}</span>
+                      <select
+                        className={`flex-1 p-1 border rounded ${player ? '' : 'border-red-500'}`}
+                        value={player?.id ?? ''}
+                        onChange={(e) => setNameOverrides(prev => ({ ...prev, [name]: e.target.value }))}
+                      >
+                        <option value="">Unmatched</option>
+                        {players.map(p => (
+                          <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                      </select>
+                      {suggestion && !suggestion.exact && !(name in nameOverrides) && (
+                        <button
+                          type="button"
+                          className="px-2 py-0.5 text-xs rounded bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
+                          onClick={() => setNameOverrides(prev => ({ ...prev, [name]: suggestion.player.id.toString() }))}
+                          title="Only matched approximately"
+                        >
+                          Confirm fuzzy match
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {preview.length > 0 && (
+            <div>
+              <h3 className="font-medium mb-2">Preview (oldest first)</h3>
+              <div className="overflow-y-auto max-h-64 text-sm">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="px-2 py-1 text-left">Line</th>
+                      <th className="px-2 py-1 text-left">Winner</th>
+                      <th className="px-2 py-1 text-left">Loser</th>
+                      <th className="px-2 py-1 text-left">Score</th>
+                      <th className="px-2 py-1 text-left">Projected ELO</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map(({ row, winner, loser, winnerElo, loserElo, eloChange, problem }) => (
+                      <tr key={row.line} className={`border-b ${problem ? 'text-gray-400' : ''}`}>
+                        <td className="px-2 py-1">{row.line}</td>
+                        <td className="px-2 py-1">{winner?.name || row.winnerName}</td>
+                        <td className="px-2 py-1">{loser?.name || row.loserName}</td>
+                        <td className="px-2 py-1">{row.winnerScore !== undefined ? `${row.winnerScore}-${row.loserScore}` : '-'}</td>
+                        <td className="px-2 py-1">
+                          {problem ? (
+                            <span className="text-red-600">{problem}</span>
+                          ) : (
+                            <>
+                              <span className="text-green-600">{winnerElo} → {(winnerElo as number) + (eloChange as number)}</span>
+                              {' / '}
+                              <span className="text-red-600">{loserElo} → {(loserElo as number) - (eloChange as number)}</span>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Projections use current ratings; the server applies its own calculation when the matches are recorded.
+              </p>
+            </div>
+          )}
+
+          {preview.length > 0 && (
+            <button
+              className="w-full bg-green-600 text-white px-4 py-2 rounded disabled:bg-gray-400"
+              onClick={handleImport}
+              disabled={importing || importable.length === 0}
+            >
+              {importing ? `Recording ${progress}/${importable.length}...` : `Import ${importable.length} Match(es)`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchImport;
@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Player } from '../../services/playerService';
+import { Match, filterMatches } from '../../services/matchService';
+import { getErrorMessage } from '../../services/apiClient';
+import { MATCHMAKING_CONFIG, PairingSuggestion, rankPairings, suggestRound } from '../../utils/matchmaking';
+
+interface MatchmakingPanelProps {
+  players: Player[];
+  // Changes whenever a match is recorded, which reloads the history
+  recentMatches: Match[];
+  onSelectPairing: (player1Id: string, player2Id: string) => void;
+}
+
+// Enough history to cover the rematch window several times over
+const HISTORY_SIZE = MATCHMAKING_CONFIG.recencyWindow * 5;
+const MAX_ALTERNATIVES = 5;
+
+const describeMeeting = (suggestion: PairingSuggestion) =>
+  suggestion.matchesSinceLastMeeting === null
+    ? 'not played recently'
+    : suggestion.matchesSinceLastMeeting === 0
+      ? 'just played'
+      : `played ${suggestion.matchesSinceLastMeeting} match(es) ago`;
+
+const MatchmakingPanel: React.FC<MatchmakingPanelProps> = ({ players, recentMatches, onSelectPairing }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [presentIds, setPresentIds] = useState<Set<number>>(new Set());
+  const [history, setHistory] = useState<Match[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  // Reload when opened and after every recorded match, which changes who played last
+  useEffect(() => {
+    if (!expanded) return;
+
+    let cancelled = false;
+    const loadHistory = async () => {
+      try {
+        const result = await filterMatches({ limit: HISTORY_SIZE });
+        if (!cancelled) {
+          setHistory(result);
+          setHistoryError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setHistoryError('Failed to load match history: ' + getErrorMessage(err));
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [expanded, recentMatches]);
+
+  const present = useMemo(() => players.filter(p => presentIds.has(p.id)), [players, presentIds]);
+  const pairings = useMemo(() => rankPairings(present, history), [present, history]);
+  const round = suggestRound(pairings);
+  const sittingOut = present.filter(p => !round.some(s => s.player1 === p || s.player2 === p));
+  const alternatives = pairings.filter(s => !round.includes(s)).slice(0, MAX_ALTERNATIVES);
+
+  const togglePresent = (playerId: number) => {
+    setPresentIds(prev => {
+      const next = new Set(prev);
+      if (next.has(playerId)) {
+        next.delete(playerId);
+      } else {
+        next.add(playerId);
+      }
+      return next;
+    });
+  };
+
+  const renderSuggestion = (suggestion: PairingSuggestion) => (
+    <div key={`${suggestion.player1.id}-${suggestion.player2.id}`} className="flex justify-between items-center border-b py-2 text-sm">
+      <div>
+        <div className="font-medium">{suggestion.player1.name} vs {suggestion.player2.name}</div>
+        <div className="text-xs text-gray-500">ELO gap {suggestion.eloGap} · {describeMeeting(suggestion)}</div>
+      </div>
+      <button
+        className="px-2 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700"
+        onClick={() => onSelectPairing(suggestion.player1.id.toString(), suggestion.player2.id.toString())}
+      >
+        Record
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-4 rounded shadow">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Suggest Matches</h2>
+        <button
+          type="button"
+          className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm"
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? 'Hide' : 'Who\'s here?'}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="font-medium">Present ({present.length})</h3>
+              <div className="flex gap-2 text-xs">
+                <button className="text-blue-600 hover:underline" onClick={() => setPresentIds(new Set(players.map(p => p.id)))}>All</button>
+                <button className="text-blue-600 hover:underline" onClick={() => setPresentIds(new Set())}>None</button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-1 text-sm overflow-y-auto max-h-40">
+              {players.map(player => (
+                <label key={player.id} className="flex items-center gap-2">
+                  <input type="checkbox" checked={presentIds.has(player.id)} onChange={() => togglePresent(player.id)} />
+                  {player.name} <span className="text-gray-500">({player.elo})</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {historyError && <p className="text-red-600 text-sm">{historyError}</p>}
+
+          {present.length < 2 ? (
+            <p className="text-gray-500 text-sm">Tick at least two players who are here.</p>
+          ) : (
+            <>
+              <div>
+                <h3 className="font-medium">Next round</h3>
+                {round.map(renderSuggestion)}
+                {sittingOut.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">Sitting out: {sittingOut.map(p => p.name).join(', ')}</p>
+                )}
+              </div>
+              {alternatives.length > 0 && (
+                <div>
+                  <h3 className="font-medium">Other good matches</h3>
+                  {alternatives.map(renderSuggestion)}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchmakingPanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { PAGE_SIZES } from '../../services/matchService';
+
+interface PaginationProps {
+  total: number;
+  limit: number;
+  offset: number;
+  onChange: (offset: number, limit: number) => void;
+}
+
+// How many page buttons to show on either side of the current page
+const PAGE_WINDOW = 2;
+
+const Pagination: React.FC<PaginationProps> = ({ total, limit, offset, onChange }) => {
+  const pageCount = Math.max(1, Math.ceil(total / limit));
+  const currentPage = Math.min(Math.floor(offset / limit), pageCount - 1);
+  const first = total === 0 ? 0 : offset + 1;
+  const last = Math.min(offset + limit, total);
+
+  const firstShown = Math.max(0, currentPage - PAGE_WINDOW);
+  const lastShown = Math.min(pageCount - 1, currentPage + PAGE_WINDOW);
+  const pages = Array.from({ length: lastShown - firstShown + 1 }, (_, i) => firstShown + i);
+
+  const goToPage = (page: number) => onChange(page * limit, limit);
+
+  const pageButtonClass = (active: boolean) =>
+    `px-3 py-1 border rounded ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white hover:bg-gray-100'} disabled:opacity-50`;
+
+  return (
+    <div className="flex flex-wrap justify-between items-center gap-3 mt-4 text-sm">
+      <span className="text-gray-600">
+        Showing {first}–{last} of {total}
+      </span>
+
+      <div className="flex items-center gap-1">
+        <button className={pageButtonClass(false)} onClick={() => goToPage(currentPage - 1)} disabled={currentPage === 0}>
+          Previous
+        </button>
+        {firstShown > 0 && <span className="px-1 text-gray-500">…</span>}
+        {pages.map(page => (
+          <button key={page} className={pageButtonClass(page === currentPage)} onClick={() => goToPage(page)}>
+            {page + 1}
+          </button>
+        ))}
+        {lastShown < pageCount - 1 && <span className="px-1 text-gray-500">…</span>}
+        <button className={pageButtonClass(false)} onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pageCount - 1}>
+          Next
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-gray-600">
+        Per page
+        <select
+          className="p-1 border rounded"
+          value={limit}
+          // Restart from the first page so the new page size lines up
+          onChange={(e) => onChange(0, parseInt(e.target.value))}
+        >
+          {PAGE_SIZES.map(size => (
+            <option key={size} value={size}>{size}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default Pagination;
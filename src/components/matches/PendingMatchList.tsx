@@ -0,0 +1,83 @@
+import React from 'react';
+import { Player } from '../../services/playerService';
+import { getSetScore, getSetWinner } from '../../services/matchService';
+import { QueuedMatch } from '../../services/matchQueueService';
+import PlayerIcon from '../common/PlayerIcon';
+
+interface PendingMatchListProps {
+  pendingMatches: QueuedMatch[];
+  players: Player[];
+  canManage: boolean;
+  formatTimestamp: (timestamp: string) => string;
+  onRetry: (localId: string) => void;
+  onDismiss: (localId: string) => void;
+}
+
+// Matches recorded on this device that the API hasn't accepted yet
+const PendingMatchList: React.FC<PendingMatchListProps> = ({
+  pendingMatches,
+  players,
+  canManage,
+  formatTimestamp,
+  onRetry,
+  onDismiss
+}) => {
+  return (
+    <>
+      {pendingMatches.map((entry) => {
+        const winnerId = getSetWinner(entry.player1Id, entry.player2Id, entry.format, entry.games) || entry.player1Id;
+        const loserId = winnerId == entry.player1Id ? entry.player2Id : entry.player1Id;
+        const winnerPlayer = players.find(p => p.id === parseInt(winnerId));
+        const loserPlayer = players.find(p => p.id === parseInt(loserId));
+        const [player1Wins, player2Wins] = getSetScore(entry.player1Id, entry.player2Id, entry.games);
+        const score = entry.format === 'BO1' ? null : `${Math.max(player1Wins, player2Wins)}-${Math.min(player1Wins, player2Wins)}`;
+        const rejected = entry.status === 'rejected';
+
+        return (
+          <div key={entry.localId} className={`border-b py-2 ${rejected ? 'bg-red-50' : 'bg-yellow-50'}`}>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">{formatTimestamp(entry.queuedAt)}</span>
+              <span className={`px-2 text-xs rounded-full ${rejected ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                {rejected ? 'Rejected' : 'Pending'}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="flex items-center gap-1">
+                {winnerPlayer && <PlayerIcon player={winnerPlayer} size="small" />}
+                <span className="font-medium text-green-600">{winnerPlayer?.name || winnerId}</span>
+              </div>
+              <span className="text-gray-500">defeated{score && <span className="font-bold text-gray-700"> {score}</span>}</span>
+              <div className="flex items-center gap-1">
+                {loserPlayer && <PlayerIcon player={loserPlayer} size="small" />}
+                <span className="text-red-600">{loserPlayer?.name || loserId}</span>
+              </div>
+            </div>
+            {rejected && (
+              <div className="flex justify-between items-center text-sm mt-1">
+                <span className="text-red-700">{entry.error}</span>
+                {canManage && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => onRetry(entry.localId)}
+                      className="px-2 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => onDismiss(entry.localId)}
+                      className="px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default PendingMatchList;
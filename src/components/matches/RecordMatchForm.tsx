@@ -0,0 +1,280 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Player } from '../../services/playerService';
+import { Character } from '../../services/characterService';
+import {
+  MatchCharacter,
+  SetFormat,
+  SetGame,
+  SET_FORMATS,
+  getSetScore,
+  getSetWinner,
+  validateSet
+} from '../../services/matchService';
+import { recordSetOrQueue } from '../../services/matchQueueService';
+import { getErrorMessage } from '../../services/apiClient';
+import CharacterPicker from '../common/CharacterPicker';
+import EloPreview from './EloPreview';
+
+interface RecordMatchFormProps {
+  players: Player[];
+  characters: Character[];
+  onRecorded: () => void;
+  onError: (message: string) => void;
+  // Players to fill in, e.g. from a matchmaking suggestion or an accepted challenge
+  pairing?: { player1Id: string; player2Id: string; challengeId?: number } | null;
+}
+
+const RecordMatchForm: React.FC<RecordMatchFormProps> = ({ players, characters, onRecorded, onError, pairing }) => {
+  const [player1, setPlayer1] = useState('');
+  const [player2, setPlayer2] = useState('');
+  const [player1Character, setPlayer1Character] = useState<MatchCharacter | null>(null);
+  const [player2Character, setPlayer2Character] = useState<MatchCharacter | null>(null);
+  const [format, setFormat] = useState<SetFormat>('BO1');
+  const [games, setGames] = useState<SetGame[]>([]);
+  const [perGameCharacters, setPerGameCharacters] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  // Challenge the set will settle; dropped when the players are changed by hand
+  const [challengeId, setChallengeId] = useState<number | undefined>(undefined);
+
+  const getPlayerName = (id: string) => players.find(p => p.id === parseInt(id))?.name;
+  const selectedPlayer1 = players.find(p => p.id.toString() === player1);
+  const selectedPlayer2 = players.find(p => p.id.toString() === player2);
+
+  // Select a player for the match, defaulting their character to their main
+  const selectMatchPlayer = useCallback((side: 1 | 2, playerId: string) => {
+    const player = players.find(p => p.id.toString() === playerId);
+    const character = player ? { characterId: player.mainCharacter.id, skin: player.skin } : null;
+
+    if (side === 1) {
+      setPlayer1(playerId);
+      setPlayer1Character(character);
+    } else {
+      setPlayer2(playerId);
+      setPlayer2Character(character);
+    }
+    setGames([]);
+  }, [players]);
+
+  // Apply each new pairing once, so later player refreshes don't undo manual changes
+  const appliedPairing = useRef<typeof pairing>(null);
+  useEffect(() => {
+    if (!pairing || pairing === appliedPairing.current) return;
+    appliedPairing.current = pairing;
+    selectMatchPlayer(1, pairing.player1Id);
+    selectMatchPlayer(2, pairing.player2Id);
+    setChallengeId(pairing.challengeId);
+  }, [pairing, selectMatchPlayer]);
+
+  // Setting a game's winner drops any later games, since they may no longer be legal
+  const setGameWinner = (index: number, winnerId: string) => {
+    setGames(prev => {
+      const next = prev.slice(0, index);
+      if (winnerId) {
+        next.push({ winnerId, characters: prev[index]?.characters });
+      }
+      return next;
+    });
+  };
+
+  const setGameCharacter = (index: number, side: 'player1' | 'player2', characterId: string) => {
+    setGames(prev => prev.map((game, i) => {
+      if (i !== index) return game;
+      const defaultCharacter = side === 'player1' ? player1Character : player2Character;
+      // Keep the side's chosen skin when the game uses the same character
+      const character = characterId
+        ? {
+            characterId: parseInt(characterId),
+            skin: defaultCharacter?.characterId === parseInt(characterId) ? defaultCharacter.skin : 1
+          }
+        : null;
+      return { ...game, characters: { ...game.characters, [side]: character } };
+    }));
+  };
+
+  // Fill in each game's characters from the set-level selection unless overridden per game
+  const resolveGames = (): SetGame[] => games.map(game => ({
+    winnerId: game.winnerId,
+    characters: {
+      player1: perGameCharacters && game.characters?.player1 !== undefined ? game.characters.player1 : player1Character,
+      player2: perGameCharacters && game.characters?.player2 !== undefined ? game.characters.player2 : player2Character,
+    }
+  }));
+
+  const setWinner = player1 && player2 ? getSetWinner(player1, player2, format, games) : null;
+  const [player1Wins, player2Wins] = getSetScore(player1, player2, games);
+  const validationError = player1 && player2 ? validateSet(player1, player2, format, games) : 'Select two players';
+  const maxGames = SET_FORMATS[format].gamesToWin * 2 - 1;
+  // Show one open row after the last played game until the set is decided
+  const visibleGames = setWinner ? games.length : Math.min(games.length + 1, maxGames);
+
+  const handleRecordMatch = async () => {
+    if (validationError || submitting) return;
+
+    setSubmitting(true);
+    try {
+      // Matches that can't reach the API are queued locally and replayed later
+      await recordSetOrQueue(player1, player2, format, resolveGames(), challengeId);
+    } catch (error) {
+      onError('Failed to record match: ' + getErrorMessage(error));
+      return;
+    } finally {
+      setSubmitting(false);
+    }
+
+    // Keep player selections, only clear the games for the next set
+    setGames([]);
+    setChallengeId(undefined);
+    onRecorded();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleRecordMatch();
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded shadow">
+      <h2 className="text-xl font-semibold mb-4">Record Match</h2>
+      {challengeId !== undefined && (
+        <div className="flex justify-between items-center mb-3 px-3 py-2 bg-purple-50 border border-purple-200 rounded text-sm text-purple-800">
+          <span>This set settles a ladder challenge</span>
+          <button type="button" className="hover:underline" onClick={() => setChallengeId(undefined)}>Unlink</button>
+        </div>
+      )}
+      <div className="grid grid-cols-1 gap-3 mb-3">
+        <select
+          className="p-2 border rounded"
+          value={player1}
+          onChange={(e) => {
+            setChallengeId(undefined);
+            selectMatchPlayer(1, e.target.value);
+          }}>
+          <option value="">Select Player 1</option>
+          {players.map(player => (
+            <option key={`p1-${player.id}`} value={player.id}>{player.name}</option>
+          ))}
+        </select>
+        <select
+          className="p-2 border rounded"
+          value={player2}
+          onChange={(e) => {
+            setChallengeId(undefined);
+            selectMatchPlayer(2, e.target.value);
+          }}>
+          <option value="">Select Player 2</option>
+          {players.map(player => (
+            <option key={`p2-${player.id}`} value={player.id} disabled={player.id.toString() === player1}>
+              {player.name}
+            </option>
+          ))}
+        </select>
+        {player1 && (
+          <CharacterPicker
+            characters={characters}
+            characterId={player1Character?.characterId ?? null}
+            skin={player1Character?.skin ?? 1}
+            placeholder="Player 1 Character"
+            onChange={(characterId, skin) => setPlayer1Character(characterId ? { characterId, skin } : null)}
+          />
+        )}
+        {player2 && (
+          <CharacterPicker
+            characters={characters}
+            characterId={player2Character?.characterId ?? null}
+            skin={player2Character?.skin ?? 1}
+            placeholder="Player 2 Character"
+            onChange={(characterId, skin) => setPlayer2Character(characterId ? { characterId, skin } : null)}
+          />
+        )}
+
+        {selectedPlayer1 && selectedPlayer2 && (
+          <EloPreview player1={selectedPlayer1} player2={selectedPlayer2} />
+        )}
+
+        {/* Set format */}
+        <div className="flex">
+          {(Object.keys(SET_FORMATS) as SetFormat[]).map((key, index, keys) => (
+            <button
+              key={key}
+              type="button"
+              className={`flex-1 px-3 py-1 border ${index === 0 ? 'rounded-l' : ''} ${index === keys.length - 1 ? 'rounded-r' : ''} ${format === key ? 'bg-blue-100 border-blue-500' : 'bg-white'}`}
+              onClick={() => {
+                setFormat(key);
+                setGames([]);
+              }}
+            >
+              {SET_FORMATS[key].label}
+            </button>
+          ))}
+        </div>
+
+        {/* Game-by-game results */}
+        {Array.from({ length: visibleGames }, (_, index) => {
+          const game = games[index];
+          return (
+            <div key={index} className="flex flex-col gap-1">
+              <select
+                className="p-2 border rounded"
+                value={game?.winnerId || ''}
+                onChange={(e) => setGameWinner(index, e.target.value)}
+                onKeyDown={handleKeyDown}>
+                <option value="">{format === 'BO1' ? 'Select Winner' : `Game ${index + 1} Winner`}</option>
+                {player1 && <option value={player1}>{getPlayerName(player1)}</option>}
+                {player2 && <option value={player2}>{getPlayerName(player2)}</option>}
+              </select>
+              {perGameCharacters && game && (
+                <div className="flex gap-2">
+                  {(['player1', 'player2'] as const).map(side => {
+                    const fallback = side === 'player1' ? player1Character : player2Character;
+                    const selected = game.characters?.[side] !== undefined ? game.characters[side] : fallback;
+                    return (
+                      <select
+                        key={side}
+                        className="p-1 border rounded flex-1 text-sm"
+                        value={selected?.characterId || ''}
+                        onChange={(e) => setGameCharacter(index, side, e.target.value)}
+                      >
+                        <option value="">{getPlayerName(side === 'player1' ? player1 : player2)}: No Character</option>
+                        {characters.map(character => (
+                          <option key={character.id} value={character.id}>{character.name}</option>
+                        ))}
+                      </select>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {format !== 'BO1' && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={perGameCharacters}
+              onChange={(e) => setPerGameCharacters(e.target.checked)}
+            />
+            Characters changed between games
+          </label>
+        )}
+
+        {format !== 'BO1' && player1 && player2 && games.length > 0 && (
+          <p className="text-sm text-gray-600">
+            Score: <span className="font-bold">{player1Wins}-{player2Wins}</span>
+            {setWinner && <> &middot; {getPlayerName(setWinner)} wins the set</>}
+          </p>
+        )}
+      </div>
+      <button
+        className="w-full bg-blue-600 text-white px-4 py-2 rounded disabled:bg-gray-400"
+        onClick={handleRecordMatch}
+        disabled={!!validationError || submitting}>
+        Record Match
+      </button>
+    </div>
+  );
+};
+
+export default RecordMatchForm;
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Player } from '../../services/playerService';
+import { Match, filterAllMatches } from '../../services/matchService';
+import { Character, findCharacter } from '../../services/characterService';
+import { getErrorMessage } from '../../services/apiClient';
+import { summarizeHeadToHead } from '../../utils/headToHead';
+import PlayerIcon from '../common/PlayerIcon';
+
+interface HeadToHeadProps {
+  players: Player[];
+  characters: Character[];
+  // null is the current season
+  seasonId: number | null;
+  formatTimestamp: (timestamp: string) => string;
+}
+
+const RECENT_OPTIONS = [5, 10, 20];
+
+const HeadToHead: React.FC<HeadToHeadProps> = ({ players, characters, seasonId, formatTimestamp }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const player1Id = searchParams.get('p1') || '';
+  const player2Id = searchParams.get('p2') || '';
+
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [loadingMatches, setLoadingMatches] = useState(false);
+  const [matchesError, setMatchesError] = useState<string | null>(null);
+  const [recentCount, setRecentCount] = useState(RECENT_OPTIONS[0]);
+
+  // Fetch both directions of the rivalry once two distinct players are picked
+  useEffect(() => {
+    if (!player1Id || !player2Id || player1Id === player2Id) {
+      setMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadMatches = async () => {
+      setLoadingMatches(true);
+      setMatchesError(null);
+      try {
+        const [won, lost] = await Promise.all([
+          filterAllMatches({ winnerId: player1Id, loserId: player2Id, seasonId: seasonId ?? undefined }),
+          filterAllMatches({ winnerId: player2Id, loserId: player1Id, seasonId: seasonId ?? undefined }),
+        ]);
+        if (cancelled) return;
+        setMatches([...won, ...lost]);
+      } catch (err) {
+        if (cancelled) return;
+        setMatchesError('Failed to fetch matches: ' + getErrorMessage(err));
+        setMatches([]);
+      }
+      setLoadingMatches(false);
+    };
+
+    loadMatches();
+    return () => {
+      cancelled = true;
+    };
+  }, [player1Id, player2Id, seasonId]);
+
+  const selectPlayer = (key: 'p1' | 'p2', value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const player1 = players.find(p => p.id.toString() === player1Id);
+  const player2 = players.find(p => p.id.toString() === player2Id);
+  const rivals = [player1, player2];
+  const summary = summarizeHeadToHead(player1Id, player2Id, matches);
+  const recentMatches = summary.matches.slice(-recentCount).reverse();
+
+  const renderPlayerSelect = (key: 'p1' | 'p2', value: string, otherId: string) => (
+    <select
+      className="w-full px-3 py-2 border rounded"
+      value={value}
+      onChange={(e) => selectPlayer(key, e.target.value)}
+    >
+      <option value="">Select Player</option>
+      {players.map(player => (
+        <option key={`${key}-${player.id}`} value={player.id} disabled={player.id.toString() === otherId}>
+          {player.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  const renderStat = (label: string, values: [React.ReactNode, React.ReactNode]) => (
+    <div className="grid grid-cols-3 items-center py-2 border-b">
+      <div className="text-xl font-bold text-right">{values[0]}</div>
+      <div className="text-xs text-gray-500 text-center uppercase">{label}</div>
+      <div className="text-xl font-bold text-left">{values[1]}</div>
+    </div>
+  );
+
+  const formatSigned = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+  return (
+    <div className="bg-white p-4 rounded shadow">
+      <h2 className="text-xl font-semibold mb-4">Head-to-Head</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        {renderPlayerSelect('p1', player1Id, player2Id)}
+        {renderPlayerSelect('p2', player2Id, player1Id)}
+      </div>
+
+      {!player1 || !player2 ? (
+        <p className="text-gray-500 text-center py-4">Pick two players to compare their rivalry.</p>
+      ) : loadingMatches ? (
+        <p className="text-gray-500 text-center py-4">Loading...</p>
+      ) : (
+        <>
+          {matchesError && (
+            <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-4" role="alert">
+              <p>{matchesError}</p>
+            </div>
+          )}
+
+          {/* Rivals */}
+          <div className="grid grid-cols-3 items-center mb-4">
+            {rivals.map((rival, index) => rival && (
+              <Link
+                key={rival.id}
+                to={`/players/${rival.id}`}
+                className={`flex flex-col items-center hover:underline ${index === 1 ? 'col-start-3' : ''}`}
+              >
+                <PlayerIcon player={rival} size="large" />
+                <span className="font-semibold mt-1">{rival.name}</span>
+                <span className="text-sm text-gray-600">{rival.elo} ELO</span>
+              </Link>
+            ))}
+          </div>
+
+          {summary.matches.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">These players have not played each other yet.</p>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="mb-6">
+                {renderStat('Wins', summary.wins)}
+                {renderStat('ELO Exchanged', [formatSigned(summary.eloExchanged[0]), formatSigned(summary.eloExchanged[1])])}
+                {renderStat('Longest Streak', summary.longestStreak)}
+                {summary.currentStreak && (
+                  <p className="text-sm text-gray-600 text-center mt-2">
+                    {rivals[summary.currentStreak.playerIndex]?.name} has won the last {summary.currentStreak.length} in a row
+                  </p>
+                )}
+              </div>
+
+              {/* Timeline */}
+              <h3 className="text-lg font-medium mb-2">Timeline</h3>
+              <div className="flex flex-wrap gap-1 mb-6">
+                {summary.matches.map(match => {
+                  const player1Won = match.winnerId.toString() === player1Id;
+                  return (
+                    <div
+                      key={match.id}
+                      className={`w-4 h-6 rounded-sm ${player1Won ? 'bg-blue-500' : 'bg-orange-500'}`}
+                      title={`${formatTimestamp(match.timestamp)}: ${player1Won ? player1.name : player2.name} (±${match.eloChange})`}
+                    />
+                  );
+                })}
+              </div>
+
+              {/* Last N results */}
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-lg font-medium">Last Results</h3>
+                <select
+                  className="px-2 py-1 border rounded text-sm"
+                  value={recentCount}
+                  onChange={(e) => setRecentCount(parseInt(e.target.value))}
+                >
+                  {RECENT_OPTIONS.map(count => (
+                    <option key={count} value={count}>Last {count}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="px-4 py-2 text-left">Date</th>
+                      <th className="px-4 py-2 text-left">Winner</th>
+                      <th className="px-4 py-2 text-left">ELO Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recentMatches.map(match => {
+                      const winner = match.winnerId.toString() === player1Id ? player1 : player2;
+                      const character = findCharacter(characters, match.winnerCharacter?.characterId);
+                      return (
+                        <tr key={match.id} className="border-b">
+                          <td className="px-4 py-2">{formatTimestamp(match.timestamp)}</td>
+                          <td className="px-4 py-2">
+                            <div className="flex items-center gap-2">
+                              <PlayerIcon player={winner} size="small" character={character} skin={match.winnerCharacter?.skin} />
+                              <span className="font-medium text-green-600">{winner.name}</span>
+                            </div>
+                          </td>
+                          <td className="px-4 py-2 font-bold text-green-600">±{match.eloChange}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HeadToHead;
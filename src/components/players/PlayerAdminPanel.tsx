@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { Player, updatePlayer, retirePlayer, reactivatePlayer, mergePlayers } from '../../services/playerService';
+import { Character } from '../../services/characterService';
+import { getErrorMessage } from '../../services/apiClient';
+import CharacterPicker from '../common/CharacterPicker';
+
+interface PlayerAdminPanelProps {
+  players: Player[];
+  characters: Character[];
+  onChanged: () => void;
+  onError: (message: string) => void;
+}
+
+type AdminTab = 'edit' | 'retire' | 'merge';
+
+const TAB_LABELS: Record<AdminTab, string> = {
+  edit: 'Edit',
+  retire: 'Retire',
+  merge: 'Merge',
+};
+
+const PlayerAdminPanel: React.FC<PlayerAdminPanelProps> = ({ players, characters, onChanged, onError }) => {
+  const [tab, setTab] = useState<AdminTab>('edit');
+  const [busy, setBusy] = useState(false);
+
+  // Edit state
+  const [editId, setEditId] = useState('');
+  const [editName, setEditName] = useState('');
+  const [editCharacter, setEditCharacter] = useState<number | null>(null);
+  const [editSkin, setEditSkin] = useState(1);
+
+  // Merge state
+  const [sourceId, setSourceId] = useState('');
+  const [targetId, setTargetId] = useState('');
+
+  const activePlayers = players.filter(p => !p.retired);
+  const retiredPlayers = players.filter(p => p.retired);
+  const findPlayer = (id: string) => players.find(p => p.id.toString() === id);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      onChanged();
+      return true;
+    } catch (err) {
+      onError(`${failure}: ${getErrorMessage(err)}`);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectPlayerToEdit = (id: string) => {
+    const player = findPlayer(id);
+    setEditId(id);
+    setEditName(player?.name || '');
+    setEditCharacter(player?.mainCharacter.id ?? null);
+    setEditSkin(player?.skin ?? 1);
+  };
+
+  const handleSave = async () => {
+    if (!editId || !editName.trim()) return;
+    await run(
+      () => updatePlayer(parseInt(editId), {
+        name: editName.trim(),
+        main: editCharacter || undefined,
+        skin: editSkin
+      }),
+      'Failed to update player'
+    );
+  };
+
+  const handleRetire = (player: Player) => {
+    if (!window.confirm(`Retire ${player.name}? They will be hidden from the ladder but kept in match history.`)) {
+      return;
+    }
+    run(() => retirePlayer(player.id), 'Failed to retire player');
+  };
+
+  const handleReactivate = (player: Player) => {
+    run(() => reactivatePlayer(player.id), 'Failed to reactivate player');
+  };
+
+  const handleMerge = async () => {
+    const source = findPlayer(sourceId);
+    const target = findPlayer(targetId);
+    if (!source || !target || source.id === target.id) return;
+
+    if (!window.confirm(`Merge ${source.name} into ${target.name}? All of ${source.name}'s matches will move to ${target.name} and ${source.name} will be removed. This action cannot be undone.`)) {
+      return;
+    }
+
+    const merged = await run(() => mergePlayers(source.id, target.id), 'Failed to merge players');
+    if (merged) {
+      setSourceId('');
+      setTargetId('');
+    }
+  };
+
+  const renderPlayerOptions = (list: Player[], disabledId?: string) =>
+    list.map(player => (
+      <option key={player.id} value={player.id} disabled={player.id.toString() === disabledId}>
+        {player.name}{player.retired ? ' (retired)' : ''}
+      </option>
+    ));
+
+  return (
+    <div className="bg-white p-4 rounded shadow">
+      <h2 className="text-xl font-semibold mb-4">Manage Players</h2>
+
+      <div className="flex mb-4">
+        {(Object.keys(TAB_LABELS) as AdminTab[]).map((key, index, keys) => (
+          <button
+            key={key}
+            type="button"
+            className={`flex-1 px-3 py-1 border ${index === 0 ? 'rounded-l' : ''} ${index === keys.length - 1 ? 'rounded-r' : ''} ${tab === key ? 'bg-blue-100 border-blue-500' : 'bg-white'}`}
+            onClick={() => setTab(key)}
+          >
+            {TAB_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'edit' && (
+        <div className="flex gap-3" style={{ flexDirection: 'column' }}>
+          <select
+            className="p-2 border rounded"
+            value={editId}
+            onChange={(e) => selectPlayerToEdit(e.target.value)}
+          >
+            <option value="">Select Player</option>
+            {renderPlayerOptions(players)}
+          </select>
+          {editId && (
+            <>
+              <input
+                type="text"
+                className="px-3 py-2 border rounded"
+                placeholder="Player Name"
+                value={editName}
+                onChange={(e) => setEditName(e.target.value)}
+              />
+              <CharacterPicker
+                characters={characters}
+                characterId={editCharacter}
+                skin={editSkin}
+                onChange={(characterId, skin) => {
+                  setEditCharacter(characterId);
+                  setEditSkin(skin);
+                }}
+              />
+              <button
+                className="bg-green-600 text-white px-4 py-2 rounded disabled:bg-gray-400"
+                onClick={handleSave}
+                disabled={busy || !editName.trim()}
+              >
+                Save Changes
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {tab === 'retire' && (
+        <div className="overflow-y-auto max-h-64">
+          {[...activePlayers, ...retiredPlayers].map(player => (
+            <div key={player.id} className="flex justify-between items-center border-b py-2">
+              <span className={player.retired ? 'text-gray-400' : 'font-medium'}>
+                {player.name}{player.retired && ' (retired)'}
+              </span>
+              {player.retired ? (
+                <button
+                  onClick={() => handleReactivate(player)}
+                  disabled={busy}
+                  className="px-2 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700"
+                >
+                  Reactivate
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleRetire(player)}
+                  disabled={busy}
+                  className="px-2 py-1 bg-gray-600 text-white text-xs rounded hover:bg-gray-700"
+                >
+                  Retire
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {tab === 'merge' && (
+        <div className="grid grid-cols-1 gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">Duplicate (will be removed)</label>
+            <select
+              className="w-full p-2 border rounded"
+              value={sourceId}
+              onChange={(e) => setSourceId(e.target.value)}
+            >
+              <option value="">Select Player</option>
+              {renderPlayerOptions(players, targetId)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Merge into</label>
+            <select
+              className="w-full p-2 border rounded"
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+            >
+              <option value="">Select Player</option>
+              {renderPlayerOptions(players, sourceId)}
+            </select>
+          </div>
+          <button
+            className="bg-red-600 text-white px-4 py-2 rounded disabled:bg-gray-400"
+            onClick={handleMerge}
+            disabled={busy || !sourceId || !targetId || sourceId === targetId}
+          >
+            Merge Players
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlayerAdminPanel;
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Player } from '../../services/playerService';
+import { Match, filterAllMatches } from '../../services/matchService';
+import { getErrorMessage } from '../../services/apiClient';
+import { buildEloHistory, sliceEloHistory } from '../../utils/eloHistory';
+import PlayerIcon from '../common/PlayerIcon';
+import EloChart from '../common/EloChart';
+import { DateTimeSettings, getZonedDate, startOfZonedDay } from '../../utils/dateTime';
+
+interface PlayerProfileProps {
+  players: Player[];
+  // null is the current season
+  seasonId: number | null;
+  dateTimeSettings: DateTimeSettings;
+}
+
+type HistoryRange = 'month' | '90days' | 'all';
+
+const RANGE_LABELS: Record<HistoryRange, string> = {
+  month: 'This Month',
+  '90days': 'Last 90 Days',
+  all: 'All Time',
+};
+
+// Months start at midnight in the viewer's display timezone
+const getRangeStart = (range: HistoryRange, timeZone: string): Date | null => {
+  const now = new Date();
+  switch (range) {
+    case 'month': {
+      const { year, month } = getZonedDate(now, timeZone);
+      return startOfZonedDay(year, month, 1, timeZone);
+    }
+    case '90days':
+      return new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
+    default:
+      return null;
+  }
+};
+
+const PlayerProfile: React.FC<PlayerProfileProps> = ({ players, seasonId, dateTimeSettings }) => {
+  const { id } = useParams();
+  const player = players.find(p => p.id.toString() === id);
+
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [loadingMatches, setLoadingMatches] = useState(false);
+  const [matchesError, setMatchesError] = useState<string | null>(null);
+  const [range, setRange] = useState<HistoryRange>('all');
+
+  // Load every match the player took part in this season to rebuild the rating curve
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+    const loadMatches = async () => {
+      setLoadingMatches(true);
+      setMatchesError(null);
+      try {
+        const result = await filterAllMatches({ playerId: id, seasonId: seasonId ?? undefined });
+        if (cancelled) return;
+        setMatches(result);
+      } catch (err) {
+        if (cancelled) return;
+        setMatchesError('Failed to fetch matches: ' + getErrorMessage(err));
+        setMatches([]);
+      }
+      setLoadingMatches(false);
+    };
+
+    loadMatches();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, seasonId]);
+
+  if (!player) {
+    return (
+      <div className="bg-white p-4 rounded shadow">
+        <p className="text-gray-500 text-center py-4">Player not found.</p>
+        <div className="text-center">
+          <Link to="/" className="text-blue-600 hover:underline">Back to ladder</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const winRate = player.matchesPlayed > 0 ? (player.wins / player.matchesPlayed) * 100 : 0;
+  const history = sliceEloHistory(buildEloHistory(player.id, matches), getRangeStart(range, dateTimeSettings.timeZone));
+  const eloDelta = history.length > 0 ? history[history.length - 1].elo - history[0].elo : 0;
+
+  return (
+    <div className="bg-white p-4 rounded shadow">
+      <div className="flex items-center gap-4 mb-4">
+        <PlayerIcon player={player} size="large" />
+        <div>
+          <h2 className="text-2xl font-semibold">{player.name}</h2>
+          <p className="text-gray-600">{player.mainCharacter.name}</p>
+        </div>
+        <div className="ml-auto text-right">
+          <div className="text-3xl font-bold text-blue-800">{player.elo}</div>
+          <div className="text-xs text-gray-500">ELO</div>
+        </div>
+      </div>
+
+      {/* Record */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        <div className="bg-gray-50 p-3 rounded text-center">
+          <div className="text-xl font-bold">{player.matchesPlayed}</div>
+          <div className="text-xs text-gray-500">Matches</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded text-center">
+          <div className="text-xl font-bold text-green-600">{player.wins}</div>
+          <div className="text-xs text-gray-500">Wins</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded text-center">
+          <div className="text-xl font-bold text-red-600">{player.losses}</div>
+          <div className="text-xs text-gray-500">Losses</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded text-center">
+          <div className="text-xl font-bold">{winRate.toFixed(1)}%</div>
+          <div className="text-xs text-gray-500">Win Rate</div>
+        </div>
+      </div>
+
+      {/* ELO History */}
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center gap-2">
+          <h3 className="text-lg font-medium">ELO History</h3>
+          {history.length > 1 && (
+            <span className={`text-sm font-bold ${eloDelta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {eloDelta >= 0 ? '+' : ''}{eloDelta}
+            </span>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(RANGE_LABELS) as HistoryRange[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setRange(key)}
+              className={`px-2 py-1 text-xs rounded ${range === key ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}
+            >
+              {RANGE_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {matchesError && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-4" role="alert">
+          <p>{matchesError}</p>
+        </div>
+      )}
+
+      {loadingMatches ? (
+        <p className="text-gray-500 text-center py-4">Loading...</p>
+      ) : (
+        <EloChart points={history} dateTimeSettings={dateTimeSettings} />
+      )}
+
+      <div className="mt-4 flex gap-4">
+        <Link
+          to={`/matches?playerId=${player.id}`}
+          className="text-blue-600 hover:underline"
+        >
+          View match history
+        </Link>
+        <Link
+          to={`/head-to-head?p1=${player.id}`}
+          className="text-blue-600 hover:underline"
+        >
+          Compare head-to-head
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerProfile;
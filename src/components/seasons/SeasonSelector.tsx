@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { DEFAULT_BASE_ELO, Season, isArchivedSeason } from '../../services/seasonService';
+import { DateTimeSettings, formatDate } from '../../utils/dateTime';
+
+interface SeasonSelectorProps {
+  seasons: Season[];
+  // null selects the current season
+  selectedSeasonId: number | null;
+  onSelect: (seasonId: number | null) => void;
+  canStartSeason: boolean;
+  // Resolves to false if the season could not be started
+  onStartSeason: (name: string, baseElo: number) => Promise<boolean>;
+  dateTimeSettings: DateTimeSettings;
+}
+
+const formatSeasonDates = (season: Season, settings: DateTimeSettings) => {
+  const start = formatDate(season.startDate, settings);
+  return season.endDate ? `${start} – ${formatDate(season.endDate, settings)}` : `since ${start}`;
+};
+
+const SeasonSelector: React.FC<SeasonSelectorProps> = ({
+  seasons,
+  selectedSeasonId,
+  onSelect,
+  canStartSeason,
+  onStartSeason,
+  dateTimeSettings
+}) => {
+  const [showStartForm, setShowStartForm] = useState(false);
+  const [name, setName] = useState('');
+  const [baseElo, setBaseElo] = useState(DEFAULT_BASE_ELO);
+  const [starting, setStarting] = useState(false);
+
+  const selectedSeason = seasons.find(season => season.id === selectedSeasonId);
+  const pastSeasons = seasons.filter(isArchivedSeason);
+
+  const handleStart = async () => {
+    if (!name.trim() || !Number.isFinite(baseElo)) return;
+    if (!window.confirm(`Start ${name.trim()}? The current standings will be archived and every player reset to ${baseElo} ELO.`)) {
+      return;
+    }
+
+    setStarting(true);
+    try {
+      if (await onStartSeason(name.trim(), baseElo)) {
+        setShowStartForm(false);
+        setName('');
+        setBaseElo(DEFAULT_BASE_ELO);
+      }
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  // Nothing to choose from until a first season has been archived
+  if (pastSeasons.length === 0 && !canStartSeason) return null;
+
+  return (
+    <div className="bg-white p-3 rounded shadow mb-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="font-medium" htmlFor="season-select">Season</label>
+        <select
+          id="season-select"
+          className="p-2 border rounded"
+          value={selectedSeasonId ?? ''}
+          onChange={(e) => onSelect(e.target.value ? parseInt(e.target.value) : null)}
+        >
+          <option value="">Current season</option>
+          {pastSeasons.map(season => (
+            <option key={season.id} value={season.id}>
+              {season.name} ({formatSeasonDates(season, dateTimeSettings)})
+            </option>
+          ))}
+        </select>
+        {isArchivedSeason(selectedSeason) && (
+          <span className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded-full">Archived – read-only</span>
+        )}
+        {canStartSeason && selectedSeasonId === null && (
+          <button
+            type="button"
+            className="ml-auto px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+            onClick={() => setShowStartForm(!showStartForm)}
+          >
+            {showStartForm ? 'Cancel' : 'Start New Season'}
+          </button>
+        )}
+      </div>
+
+      {showStartForm && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-3">
+          <input
+            type="text"
+            className="px-3 py-2 border rounded"
+            placeholder="Season Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <input
+            type="number"
+            className="px-3 py-2 border rounded"
+            placeholder="Base ELO"
+            value={baseElo}
+            onChange={(e) => setBaseElo(parseInt(e.target.value))}
+          />
+          <button
+            className="bg-red-600 text-white px-4 py-2 rounded disabled:bg-gray-400"
+            onClick={handleStart}
+            disabled={starting || !name.trim() || !Number.isFinite(baseElo)}
+          >
+            Archive Standings & Start
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeasonSelector;
@@ -0,0 +1,426 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Player, getActivePlayers } from '../../services/playerService';
+import { Match, SET_FORMATS, SetFormat, SetResult } from '../../services/matchService';
+import { getErrorMessage } from '../../services/apiClient';
+import {
+  RoundRobin,
+  UnsavedResultError,
+  createRoundRobin,
+  fetchRoundRobins,
+  getPoolResultKey,
+  getUnsavedResults,
+  reportPoolSet,
+  savePoolResult
+} from '../../services/tournamentService';
+import { PoolSet, computePoolStandings, createPools, schedulePools } from '../../utils/roundRobin';
+
+interface RoundRobinPoolsProps {
+  players: Player[];
+  // null is the current season
+  seasonId: number | null;
+  // Whether the user may create pools and report sets
+  canManage: boolean;
+  // Changes whenever a match is recorded, which reloads the pools
+  recentMatches: Match[];
+  onSetReported: () => void;
+}
+
+const poolName = (index: number) => `Pool ${String.fromCharCode(65 + index)}`;
+
+const RoundRobinPools: React.FC<RoundRobinPoolsProps> = ({ players, seasonId, canManage, recentMatches, onSetReported }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [roundRobins, setRoundRobins] = useState<RoundRobin[]>([]);
+  const [loadingRoundRobins, setLoadingRoundRobins] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Result being entered for each set, before it is recorded
+  const [drafts, setDrafts] = useState<Record<string, Partial<SetResult>>>({});
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  // Sets already on the ladder whose result the pool didn't take; they can
+  // only be saved again, not re-reported
+  const [unsaved, setUnsaved] = useState<Record<string, SetResult>>(getUnsavedResults);
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [setFormat, setSetFormat] = useState<SetFormat>('BO3');
+  const [poolCount, setPoolCount] = useState(2);
+  const [entrantIds, setEntrantIds] = useState<Set<number>>(new Set());
+  const [creating, setCreating] = useState(false);
+
+  // Reported sets change the ladder, so reload along with it
+  useEffect(() => {
+    let cancelled = false;
+    const loadRoundRobins = async () => {
+      setLoadingRoundRobins(true);
+      try {
+        const result = await fetchRoundRobins(seasonId);
+        if (!cancelled) setRoundRobins(result);
+      } catch (err) {
+        if (!cancelled) setError('Failed to fetch pools: ' + getErrorMessage(err));
+      }
+      if (!cancelled) setLoadingRoundRobins(false);
+    };
+
+    loadRoundRobins();
+    return () => {
+      cancelled = true;
+    };
+  }, [seasonId, recentMatches]);
+
+  const selectedId = searchParams.get('id');
+  const selected = roundRobins.find(r => r.id.toString() === selectedId) || roundRobins[0];
+  const sets = useMemo(() => (selected ? schedulePools(selected.pools) : []), [selected]);
+
+  const activePlayers = getActivePlayers(players).sort((a, b) => b.elo - a.elo);
+  const entrants = activePlayers.filter(p => entrantIds.has(p.id));
+  const previewPools = createPools(entrants, Math.min(poolCount, Math.floor(entrants.length / 2)));
+
+  const getPlayerName = (id: string) => players.find(p => p.id.toString() === id)?.name || 'Unknown player';
+
+  const toggleEntrant = (playerId: number) => {
+    setEntrantIds(prev => {
+      const next = new Set(prev);
+      if (next.has(playerId)) {
+        next.delete(playerId);
+      } else {
+        next.add(playerId);
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const roundRobin = await createRoundRobin({ name: name.trim(), setFormat, pools: previewPools });
+      setRoundRobins(prev => [roundRobin, ...prev]);
+      setSearchParams({ id: roundRobin.id.toString() });
+      setName('');
+      setEntrantIds(new Set());
+      setShowCreate(false);
+      setError(null);
+    } catch (err) {
+      setError('Failed to create pools: ' + getErrorMessage(err));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const updateDraft = (setId: string, changes: Partial<SetResult>) =>
+    setDrafts(prev => ({ ...prev, [setId]: { ...prev[setId], ...changes } }));
+
+  const clearDraft = (setId: string) =>
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[setId];
+      return next;
+    });
+
+  const handleReport = async (set: PoolSet) => {
+    const draft = drafts[set.id];
+    if (!selected || !draft?.winnerId) return;
+    const result = { winnerId: draft.winnerId, loserScore: draft.loserScore ?? 0 };
+
+    setReportingId(set.id);
+    try {
+      const updated = await reportPoolSet(selected, set.id, result);
+      setRoundRobins(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+      clearDraft(set.id);
+      setError(null);
+      onSetReported();
+    } catch (err) {
+      setError('Failed to report set: ' + getErrorMessage(err));
+      // The set is on the ladder all the same
+      if (err instanceof UnsavedResultError) {
+        clearDraft(set.id);
+        onSetReported();
+      }
+    } finally {
+      setUnsaved(getUnsavedResults());
+      setReportingId(null);
+    }
+  };
+
+  // Retry saving a result that is already on the ladder
+  const handleSaveResult = async (set: PoolSet, result: SetResult) => {
+    if (!selected) return;
+
+    setReportingId(set.id);
+    try {
+      const updated = await savePoolResult(selected, set.id, result);
+      setRoundRobins(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+      setError(null);
+    } catch (err) {
+      setError('Failed to save result: ' + getErrorMessage(err));
+    } finally {
+      setUnsaved(getUnsavedResults());
+      setReportingId(null);
+    }
+  };
+
+  const renderSet = (set: PoolSet, roundRobin: RoundRobin) => {
+    const result = roundRobin.results[set.id];
+    const draft = drafts[set.id] || {};
+    const { gamesToWin } = SET_FORMATS[roundRobin.setFormat];
+
+    if (result) {
+      const loserId = result.winnerId === set.player1Id ? set.player2Id : set.player1Id;
+      return (
+        <div key={set.id} className="flex justify-between py-1 text-sm">
+          <span>
+            <span className="font-semibold">{getPlayerName(result.winnerId)}</span>
+            {' def. '}
+            <span className="text-gray-500">{getPlayerName(loserId)}</span>
+          </span>
+          <span className="text-gray-600">{gamesToWin}-{result.loserScore}</span>
+        </div>
+      );
+    }
+
+    const unsavedResult = unsaved[getPoolResultKey(roundRobin, set.id)];
+    if (unsavedResult) {
+      return (
+        <div key={set.id} className="flex flex-wrap justify-between items-center gap-2 py-1 px-1 text-sm bg-yellow-50">
+          <span title="Already recorded on the ladder">
+            <span className="font-semibold">{getPlayerName(unsavedResult.winnerId)}</span>
+            {' def. '}
+            <span className="text-gray-500">
+              {getPlayerName(unsavedResult.winnerId === set.player1Id ? set.player2Id : set.player1Id)}
+            </span>
+            {' '}{gamesToWin}-{unsavedResult.loserScore}
+          </span>
+          {canManage && (
+            <button
+              className="px-2 py-1 bg-blue-600 text-white text-xs rounded disabled:bg-gray-400"
+              onClick={() => handleSaveResult(set, unsavedResult)}
+              disabled={reportingId !== null}
+            >
+              {reportingId === set.id ? 'Saving...' : 'Save result'}
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div key={set.id} className="flex flex-wrap justify-between items-center gap-2 py-1 text-sm">
+        <span>{getPlayerName(set.player1Id)} vs {getPlayerName(set.player2Id)}</span>
+        {canManage && (
+          <div className="flex items-center gap-1">
+            <select
+              className="p-1 border rounded text-xs"
+              value={draft.winnerId || ''}
+              onChange={(e) => updateDraft(set.id, { winnerId: e.target.value })}
+            >
+              <option value="">Winner</option>
+              <option value={set.player1Id}>{getPlayerName(set.player1Id)}</option>
+              <option value={set.player2Id}>{getPlayerName(set.player2Id)}</option>
+            </select>
+            {gamesToWin > 1 && (
+              <select
+                className="p-1 border rounded text-xs"
+                value={draft.loserScore ?? 0}
+                onChange={(e) => updateDraft(set.id, { loserScore: parseInt(e.target.value) })}
+                title="Score"
+              >
+                {Array.from({ length: gamesToWin }, (_, loserScore) => (
+                  <option key={loserScore} value={loserScore}>{gamesToWin}-{loserScore}</option>
+                ))}
+              </select>
+            )}
+            <button
+              className="px-2 py-1 bg-green-600 text-white text-xs rounded disabled:bg-gray-400"
+              onClick={() => handleReport(set)}
+              disabled={!draft.winnerId || reportingId !== null}
+            >
+              {reportingId === set.id ? 'Recording...' : 'Record'}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderPool = (pool: string[], poolIndex: number, roundRobin: RoundRobin) => {
+    const poolSets = sets.filter(s => s.pool === poolIndex);
+    const standings = computePoolStandings(pool, poolSets, roundRobin.results, roundRobin.setFormat);
+    const done = poolSets.filter(s => roundRobin.results[s.id]).length;
+    const rounds = Array.from(new Set(poolSets.map(s => s.round)));
+
+    return (
+      <div key={poolIndex} className="border rounded p-3">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="font-medium">{poolName(poolIndex)}</h3>
+          <span className="text-xs text-gray-500">{done}/{poolSets.length} sets done</span>
+        </div>
+
+        <table className="min-w-full text-sm mb-3">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="px-2 py-1 text-left">#</th>
+              <th className="px-2 py-1 text-left">Player</th>
+              <th className="px-2 py-1 text-left">Sets</th>
+              <th className="px-2 py-1 text-left">Games</th>
+              <th className="px-2 py-1 text-left">Diff</th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map((standing, index) => {
+              const differential = standing.gameWins - standing.gameLosses;
+              return (
+                <tr key={standing.playerId} className="border-b">
+                  <td className="px-2 py-1">{index + 1}</td>
+                  <td className="px-2 py-1">
+                    <Link to={`/players/${standing.playerId}`} className="hover:underline">{getPlayerName(standing.playerId)}</Link>
+                    {standing.tiebreak && <span className="ml-1 text-xs text-gray-400" title="Tiebreaker">({standing.tiebreak})</span>}
+                  </td>
+                  <td className="px-2 py-1">{standing.setWins}-{standing.setLosses}</td>
+                  <td className="px-2 py-1">{standing.gameWins}-{standing.gameLosses}</td>
+                  <td className="px-2 py-1">{differential > 0 ? `+${differential}` : differential}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {rounds.map(round => (
+          <div key={round} className="mb-2">
+            <div className="text-xs text-gray-500">Round {round}</div>
+            <div className="divide-y">
+              {poolSets.filter(s => s.round === round).map(set => renderSet(set, roundRobin))}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+      <div className="md:col-span-1 space-y-4">
+        {canManage && (
+          <div className="bg-white p-4 rounded shadow">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-semibold">New Pools</h2>
+              <button
+                type="button"
+                className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm"
+                onClick={() => setShowCreate(!showCreate)}
+              >
+                {showCreate ? 'Hide' : 'Create'}
+              </button>
+            </div>
+
+            {showCreate && (
+              <form onSubmit={handleCreate} className="mt-4 space-y-3">
+                <input
+                  type="text"
+                  className="w-full p-2 border rounded"
+                  placeholder="League night name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <div className="flex gap-2">
+                  <select
+                    className="flex-1 p-2 border rounded"
+                    value={setFormat}
+                    onChange={(e) => setSetFormat(e.target.value as SetFormat)}
+                  >
+                    {(Object.keys(SET_FORMATS) as SetFormat[]).map(f => (
+                      <option key={f} value={f}>{SET_FORMATS[f].label}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-1 text-sm">
+                    Pools
+                    <input
+                      type="number"
+                      min={1}
+                      className="w-16 p-2 border rounded"
+                      value={poolCount}
+                      onChange={(e) => setPoolCount(Math.max(1, parseInt(e.target.value) || 1))}
+                    />
+                  </label>
+                </div>
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <h3 className="font-medium">Players ({entrants.length})</h3>
+                    <div className="flex gap-2 text-xs">
+                      <button type="button" className="text-blue-600 hover:underline" onClick={() => setEntrantIds(new Set(activePlayers.map(p => p.id)))}>All</button>
+                      <button type="button" className="text-blue-600 hover:underline" onClick={() => setEntrantIds(new Set())}>None</button>
+                    </div>
+                  </div>
+                  <div className="space-y-1 text-sm overflow-y-auto max-h-48">
+                    {activePlayers.map(player => (
+                      <label key={player.id} className="flex items-center gap-2">
+                        <input type="checkbox" checked={entrantIds.has(player.id)} onChange={() => toggleEntrant(player.id)} />
+                        {player.name} <span className="text-gray-500">({player.elo})</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                {entrants.length >= 2 && (
+                  <div className="text-xs text-gray-600 space-y-1">
+                    <p className="text-gray-500">Balanced by ELO:</p>
+                    {previewPools.map((pool, index) => (
+                      <p key={index}><span className="font-medium">{poolName(index)}:</span> {pool.map(getPlayerName).join(', ')}</p>
+                    ))}
+                  </div>
+                )}
+                <button
+                  type="submit"
+                  className="w-full bg-blue-600 text-white px-4 py-2 rounded disabled:bg-gray-400"
+                  disabled={creating || !name.trim() || entrants.length < 2}
+                >
+                  {creating ? 'Creating...' : 'Create Pools'}
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white p-4 rounded shadow">
+          <h2 className="text-xl font-semibold mb-4">League Nights</h2>
+          {loadingRoundRobins && roundRobins.length === 0 && <p className="text-gray-500">Loading pools...</p>}
+          {!loadingRoundRobins && roundRobins.length === 0 && <p className="text-gray-500">No pools yet.</p>}
+          <ul className="space-y-1">
+            {roundRobins.map(roundRobin => (
+              <li key={roundRobin.id}>
+                <button
+                  className={`w-full text-left px-2 py-1 rounded ${roundRobin === selected ? 'bg-blue-100' : 'hover:bg-gray-100'}`}
+                  onClick={() => setSearchParams({ id: roundRobin.id.toString() })}
+                >
+                  <div className="font-medium">{roundRobin.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {roundRobin.pools.length} pool(s) · {SET_FORMATS[roundRobin.setFormat].label}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="md:col-span-3 bg-white p-4 rounded shadow">
+        {error && <p className="text-red-600 mb-4">{error}</p>}
+        {selected ? (
+          <>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold">{selected.name}</h2>
+              <span className="text-sm text-gray-500">
+                {Object.keys(selected.results).length}/{sets.length} sets done
+              </span>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {selected.pools.map((pool, index) => renderPool(pool, index, selected))}
+            </div>
+          </>
+        ) : (
+          <p className="text-gray-500">Select or create a league night to see its pools.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoundRobinPools;
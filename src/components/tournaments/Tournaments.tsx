@@ -0,0 +1,400 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Player, getActivePlayers } from '../../services/playerService';
+import { Match, SET_FORMATS, SetFormat, SetResult } from '../../services/matchService';
+import { getErrorMessage } from '../../services/apiClient';
+import {
+  Tournament,
+  UnsavedResultError,
+  createTournament,
+  fetchTournaments,
+  getTournamentResultKey,
+  getUnsavedResults,
+  reportTournamentSet,
+  saveTournamentResult
+} from '../../services/tournamentService';
+import {
+  BRACKET_FORMAT_LABELS,
+  BracketFormat,
+  BracketMatchState,
+  BracketSection,
+  getBracketChampion,
+  getRoundLabel,
+  resolveBracket,
+  seedEntrants
+} from '../../utils/bracket';
+
+interface TournamentsProps {
+  players: Player[];
+  // null is the current season
+  seasonId: number | null;
+  // Whether the user may create brackets and report sets
+  canManage: boolean;
+  // Changes whenever a match is recorded, which reloads the brackets
+  recentMatches: Match[];
+  onSetReported: () => void;
+}
+
+const SECTION_LABELS: Record<BracketSection, string> = {
+  winners: 'Winners Bracket',
+  losers: 'Losers Bracket',
+  grandFinals: 'Grand Finals',
+};
+
+const Tournaments: React.FC<TournamentsProps> = ({ players, seasonId, canManage, recentMatches, onSetReported }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [loadingTournaments, setLoadingTournaments] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  // Games the loser took in each set being reported, keyed by bracket match id
+  const [loserScores, setLoserScores] = useState<Record<string, number>>({});
+  // Sets already on the ladder whose result the bracket didn't take; they can
+  // only be saved again, not re-reported
+  const [unsaved, setUnsaved] = useState<Record<string, SetResult>>(getUnsavedResults);
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [bracketFormat, setBracketFormat] = useState<BracketFormat>('double');
+  const [setFormat, setSetFormat] = useState<SetFormat>('BO3');
+  const [entrantIds, setEntrantIds] = useState<Set<number>>(new Set());
+  const [creating, setCreating] = useState(false);
+
+  // Reported sets change the ladder, so reload along with it
+  useEffect(() => {
+    let cancelled = false;
+    const loadTournaments = async () => {
+      setLoadingTournaments(true);
+      try {
+        const result = await fetchTournaments(seasonId);
+        if (!cancelled) setTournaments(result);
+      } catch (err) {
+        if (!cancelled) setError('Failed to fetch tournaments: ' + getErrorMessage(err));
+      }
+      if (!cancelled) setLoadingTournaments(false);
+    };
+
+    loadTournaments();
+    return () => {
+      cancelled = true;
+    };
+  }, [seasonId, recentMatches]);
+
+  const selectedId = searchParams.get('id');
+  const selected = tournaments.find(t => t.id.toString() === selectedId) || tournaments[0];
+
+  const bracket = useMemo(
+    () => (selected ? resolveBracket(selected.entrants, selected.format, selected.results) : []),
+    [selected]
+  );
+  const champion = getBracketChampion(bracket);
+
+  const activePlayers = getActivePlayers(players).sort((a, b) => b.elo - a.elo);
+  const seeds = seedEntrants(activePlayers.filter(p => entrantIds.has(p.id)));
+
+  const getPlayer = (id?: string | null) => players.find(p => p.id.toString() === id);
+
+  const toggleEntrant = (playerId: number) => {
+    setEntrantIds(prev => {
+      const next = new Set(prev);
+      if (next.has(playerId)) {
+        next.delete(playerId);
+      } else {
+        next.add(playerId);
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const tournament = await createTournament({ name: name.trim(), format: bracketFormat, setFormat, entrants: seeds });
+      setTournaments(prev => [tournament, ...prev]);
+      setSearchParams({ id: tournament.id.toString() });
+      setName('');
+      setEntrantIds(new Set());
+      setShowCreate(false);
+      setError(null);
+    } catch (err) {
+      setError('Failed to create tournament: ' + getErrorMessage(err));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const getUnsaved = (match: BracketMatchState) =>
+    selected && match.status === 'ready' ? unsaved[getTournamentResultKey(selected, match.id)] : undefined;
+
+  const describeResult = (match: BracketMatchState, result: SetResult) => {
+    const { gamesToWin } = SET_FORMATS[(selected as Tournament).setFormat];
+    return `${getPlayer(result.winnerId)?.name} wins ${getRoundLabel(match, bracket)}${gamesToWin > 1 ? ` ${gamesToWin}-${result.loserScore}` : ''}`;
+  };
+
+  const handleReport = async (match: BracketMatchState, winnerId: string) => {
+    if (!selected) return;
+    const result = { winnerId, loserScore: loserScores[match.id] ?? 0 };
+    if (!window.confirm(`Record ${describeResult(match, result)}?`)) {
+      return;
+    }
+
+    setReportingId(match.id);
+    try {
+      const updated = await reportTournamentSet(selected, match.id, result);
+      setTournaments(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+      setError(null);
+      onSetReported();
+    } catch (err) {
+      setError('Failed to report set: ' + getErrorMessage(err));
+      // The set is on the ladder all the same
+      if (err instanceof UnsavedResultError) onSetReported();
+    } finally {
+      setUnsaved(getUnsavedResults());
+      setReportingId(null);
+    }
+  };
+
+  // Retry saving a result that is already on the ladder
+  const handleSaveResult = async (match: BracketMatchState, result: SetResult) => {
+    if (!selected) return;
+
+    setReportingId(match.id);
+    try {
+      const updated = await saveTournamentResult(selected, match.id, result.winnerId);
+      setTournaments(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+      setError(null);
+    } catch (err) {
+      setError('Failed to save result: ' + getErrorMessage(err));
+    } finally {
+      setUnsaved(getUnsavedResults());
+      setReportingId(null);
+    }
+  };
+
+  const renderSlot = (match: BracketMatchState, playerId: string | null | undefined) => {
+    const player = getPlayer(playerId);
+    const seed = playerId ? (selected as Tournament).entrants.indexOf(playerId) + 1 : null;
+    const won = !!playerId && match.winnerId === playerId;
+    const lost = !!playerId && match.loserId === playerId;
+
+    return (
+      <div className={`flex items-center justify-between gap-2 px-2 py-1 ${won ? 'font-semibold' : ''} ${lost ? 'text-gray-400' : ''}`}>
+        <span className="truncate">
+          {seed && <span className="text-xs text-gray-400 mr-1">{seed}</span>}
+          {playerId === undefined ? <span className="text-gray-400">TBD</span>
+            : playerId === null ? <span className="text-gray-400">bye</span>
+            : player ? <Link to={`/players/${player.id}`} className="hover:underline">{player.name}</Link>
+            : 'Unknown player'}
+        </span>
+        {canManage && match.status === 'ready' && playerId && !getUnsaved(match) && (
+          <button
+            className="px-2 py-0.5 bg-green-600 text-white text-xs rounded disabled:bg-gray-400"
+            onClick={() => handleReport(match, playerId)}
+            disabled={reportingId !== null}
+          >
+            Won
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Score entry for a set being reported, or the retry for one the bracket didn't save
+  const renderReportRow = (match: BracketMatchState) => {
+    if (match.status !== 'ready' || !selected) return null;
+    const result = getUnsaved(match);
+
+    if (result) {
+      return (
+        <div className="flex items-center justify-between gap-2 px-2 py-1 bg-yellow-50 text-xs">
+          <span title="Already recorded on the ladder">{describeResult(match, result)}</span>
+          <button
+            className="px-2 py-0.5 bg-blue-600 text-white rounded disabled:bg-gray-400"
+            onClick={() => handleSaveResult(match, result)}
+            disabled={reportingId !== null}
+          >
+            Save result
+          </button>
+        </div>
+      );
+    }
+
+    const { gamesToWin } = SET_FORMATS[selected.setFormat];
+    if (gamesToWin === 1) return null;
+    return (
+      <div className="flex items-center justify-between gap-2 px-2 py-1 text-xs text-gray-600">
+        Loser's games
+        <select
+          className="p-0.5 border rounded"
+          value={loserScores[match.id] ?? 0}
+          onChange={(e) => setLoserScores(prev => ({ ...prev, [match.id]: parseInt(e.target.value) }))}
+          title="Score"
+        >
+          {Array.from({ length: gamesToWin }, (_, loserScore) => (
+            <option key={loserScore} value={loserScore}>{gamesToWin}-{loserScore}</option>
+          ))}
+        </select>
+      </div>
+    );
+  };
+
+  const renderSection = (section: BracketSection) => {
+    // Byes with nobody in them are just padding
+    const matches = bracket.filter(m => m.section === section && !(m.status === 'bye' && !m.winnerId));
+    if (matches.length === 0) return null;
+    const rounds = Array.from(new Set(matches.map(m => m.round)));
+
+    return (
+      <div key={section} className="mb-6">
+        <h3 className="font-medium mb-2">{SECTION_LABELS[section]}</h3>
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {rounds.map(round => (
+            <div key={round} className="flex flex-col justify-around gap-3 min-w-48">
+              <div className="text-xs text-gray-500 text-center">
+                {getRoundLabel(matches.find(m => m.round === round) as BracketMatchState, bracket)}
+              </div>
+              {matches.filter(m => m.round === round).map(match => (
+                <div
+                  key={match.id}
+                  className={`border rounded text-sm divide-y ${match.status === 'ready' ? 'border-blue-400' : ''} ${match.status === 'skipped' ? 'opacity-50' : ''}`}
+                  title={match.status === 'skipped' ? 'Not needed: the winners side won the grand final' : undefined}
+                >
+                  {renderSlot(match, match.player1Id)}
+                  {renderSlot(match, match.player2Id)}
+                  {canManage && renderReportRow(match)}
+                  {reportingId === match.id && <div className="px-2 py-1 text-xs text-gray-500">Recording...</div>}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+      <div className="md:col-span-1 space-y-4">
+        {canManage && (
+          <div className="bg-white p-4 rounded shadow">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-semibold">New Bracket</h2>
+              <button
+                type="button"
+                className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm"
+                onClick={() => setShowCreate(!showCreate)}
+              >
+                {showCreate ? 'Hide' : 'Create'}
+              </button>
+            </div>
+
+            {showCreate && (
+              <form onSubmit={handleCreate} className="mt-4 space-y-3">
+                <input
+                  type="text"
+                  className="w-full p-2 border rounded"
+                  placeholder="Tournament name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <select
+                  className="w-full p-2 border rounded"
+                  value={bracketFormat}
+                  onChange={(e) => setBracketFormat(e.target.value as BracketFormat)}
+                >
+                  {(Object.keys(BRACKET_FORMAT_LABELS) as BracketFormat[]).map(f => (
+                    <option key={f} value={f}>{BRACKET_FORMAT_LABELS[f]}</option>
+                  ))}
+                </select>
+                <select
+                  className="w-full p-2 border rounded"
+                  value={setFormat}
+                  onChange={(e) => setSetFormat(e.target.value as SetFormat)}
+                >
+                  {(Object.keys(SET_FORMATS) as SetFormat[]).map(f => (
+                    <option key={f} value={f}>{SET_FORMATS[f].label}</option>
+                  ))}
+                </select>
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <h3 className="font-medium">Entrants ({seeds.length})</h3>
+                    <div className="flex gap-2 text-xs">
+                      <button type="button" className="text-blue-600 hover:underline" onClick={() => setEntrantIds(new Set(activePlayers.map(p => p.id)))}>All</button>
+                      <button type="button" className="text-blue-600 hover:underline" onClick={() => setEntrantIds(new Set())}>None</button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-1">Seeded by current ELO.</p>
+                  <div className="space-y-1 text-sm overflow-y-auto max-h-64">
+                    {activePlayers.map(player => {
+                      const seed = seeds.indexOf(player.id.toString()) + 1;
+                      return (
+                        <label key={player.id} className="flex items-center gap-2">
+                          <input type="checkbox" checked={entrantIds.has(player.id)} onChange={() => toggleEntrant(player.id)} />
+                          <span className="w-6 text-xs text-gray-400">{seed > 0 ? `#${seed}` : ''}</span>
+                          {player.name} <span className="text-gray-500">({player.elo})</span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+                <button
+                  type="submit"
+                  className="w-full bg-blue-600 text-white px-4 py-2 rounded disabled:bg-gray-400"
+                  disabled={creating || !name.trim() || seeds.length < 2}
+                >
+                  {creating ? 'Creating...' : 'Generate Bracket'}
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white p-4 rounded shadow">
+          <h2 className="text-xl font-semibold mb-4">Tournaments</h2>
+          {loadingTournaments && tournaments.length === 0 && <p className="text-gray-500">Loading tournaments...</p>}
+          {!loadingTournaments && tournaments.length === 0 && <p className="text-gray-500">No tournaments yet.</p>}
+          <ul className="space-y-1">
+            {tournaments.map(tournament => (
+              <li key={tournament.id}>
+                <button
+                  className={`w-full text-left px-2 py-1 rounded ${tournament === selected ? 'bg-blue-100' : 'hover:bg-gray-100'}`}
+                  onClick={() => setSearchParams({ id: tournament.id.toString() })}
+                >
+                  <div className="font-medium">{tournament.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {BRACKET_FORMAT_LABELS[tournament.format]} · {tournament.entrants.length} entrants
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="md:col-span-3 bg-white p-4 rounded shadow">
+        {error && <p className="text-red-600 mb-4">{error}</p>}
+        {selected ? (
+          <>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold">{selected.name}</h2>
+              <span className="text-sm text-gray-500">
+                {BRACKET_FORMAT_LABELS[selected.format]} · {SET_FORMATS[selected.setFormat].label}
+              </span>
+            </div>
+            {champion && (
+              <p className="mb-4 p-3 bg-yellow-50 border border-yellow-300 rounded">
+                🏆 Champion: <span className="font-semibold">{getPlayer(champion)?.name || 'Unknown player'}</span>
+              </p>
+            )}
+            {(['winners', 'losers', 'grandFinals'] as BracketSection[]).map(renderSection)}
+          </>
+        ) : (
+          <p className="text-gray-500">Select or create a tournament to see its bracket.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Tournaments;
@@ -12,12 +12,40 @@ export const API_ENDPOINTS = {
   PLAYERS: {
     LIST: '/api/players',
     CREATE: '/api/players',
+    UPDATE: '/api/players',
+    RETIRE: '/api/players/retire',
+    REACTIVATE: '/api/players/reactivate',
+    MERGE: '/api/players/merge',
+  },
+  SEASONS: {
+    LIST: '/api/seasons',
+    START: '/api/seasons',
+  },
+  TOURNAMENTS: {
+    LIST: '/api/tournaments',
+    CREATE: '/api/tournaments',
+    RESULTS: '/api/tournaments',
+  },
+  ROUND_ROBINS: {
+    LIST: '/api/round-robins',
+    CREATE: '/api/round-robins',
+    RESULTS: '/api/round-robins',
+  },
+  CHALLENGES: {
+    LIST: '/api/challenges',
+    CREATE: '/api/challenges',
+    ACCEPT: '/api/challenges',
+    FORFEIT: '/api/challenges',
+  },
+  EVENTS: {
+    STREAM: '/api/events',
   },
   CHARACTERS: {
     LIST: '/api/characters',
   },
   AUTH: {
     LOGIN: '/api/auth/login',
+    REFRESH: '/api/auth/refresh',
   }
 };
 
@@ -27,7 +55,7 @@ export const getApiUrl = (endpoint: string): string => {
 };
 
 // Helper function to get auth headers
-export const getAuthHeaders = (token?: string | null): HeadersInit => {
+export const getAuthHeaders = (token?: string | null): Record<string, string> => {
   const authToken = token || localStorage.getItem('auth_token');
   
   return authToken
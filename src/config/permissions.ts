@@ -0,0 +1,29 @@
+// Roles the API can assign to a user (`AuthResponse.user.role`)
+export type Role = 'viewer' | 'scorekeeper' | 'admin';
+
+export type Capability =
+  | 'matches:record'
+  | 'matches:annul'
+  | 'players:manage'
+  | 'seasons:manage';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  scorekeeper: 'Scorekeeper',
+  admin: 'Admin',
+};
+
+const ROLE_CAPABILITIES: Record<Role, Capability[]> = {
+  viewer: [],
+  scorekeeper: ['matches:record'],
+  admin: ['matches:record', 'matches:annul', 'players:manage', 'seasons:manage'],
+};
+
+// Unknown or missing roles get the least privileges
+export const normalizeRole = (role?: string | null): Role => {
+  const normalized = role?.toLowerCase();
+  return normalized === 'admin' || normalized === 'scorekeeper' ? normalized : 'viewer';
+};
+
+export const hasCapability = (role: Role, capability: Capability): boolean =>
+  ROLE_CAPABILITIES[role].includes(capability);
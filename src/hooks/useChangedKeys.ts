@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from 'react';
+
+const HIGHLIGHT_MS = 3000;
+
+// Keys whose signature is new or different from the previous `signatures`,
+// e.g. players whose rating just moved. They are reported for a few seconds so
+// the rows can be highlighted. Changing `resetKey` (such as switching season)
+// takes the next list that differs as the new baseline without highlighting
+// anything; the data for the new key usually arrives a render or more later.
+export const useChangedKeys = (signatures: Map<string, string>, resetKey?: unknown): Set<string> => {
+  const [changed, setChanged] = useState<Set<string>>(new Set());
+  const previous = useRef<Map<string, string> | null>(null);
+  const previousResetKey = useRef(resetKey);
+  const resetPending = useRef(false);
+  const timeoutId = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    const before = previous.current;
+    previous.current = signatures;
+
+    if (previousResetKey.current !== resetKey) {
+      previousResetKey.current = resetKey;
+      resetPending.current = true;
+      return;
+    }
+
+    const keys = Array.from(signatures.keys()).filter(key => before?.get(key) !== signatures.get(key));
+
+    // The first change after a reset is the new baseline, not an update
+    if (resetPending.current) {
+      if (keys.length > 0 || signatures.size !== before?.size) resetPending.current = false;
+      return;
+    }
+
+    // Nothing to compare against on the first load
+    if (!before || before.size === 0 || keys.length === 0) return;
+
+    setChanged(new Set(keys));
+    if (timeoutId.current) clearTimeout(timeoutId.current);
+    timeoutId.current = setTimeout(() => setChanged(new Set()), HIGHLIGHT_MS);
+  }, [signatures, resetKey]);
+
+  useEffect(() => () => {
+    if (timeoutId.current) clearTimeout(timeoutId.current);
+  }, []);
+
+  return changed;
+};
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DateTimeSettings, getBrowserLocale, getLocalTimeZone } from '../utils/dateTime';
+
+const SETTINGS_STORAGE_KEY = 'display_settings';
+
+// The viewer's choices; anything unset follows the browser
+export interface DisplaySettings {
+  timeZone?: string;
+  locale?: string;
+}
+
+const readSettings = (): DisplaySettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as DisplaySettings) : {};
+  } catch (error) {
+    console.error('Failed to read display settings:', error);
+    return {};
+  }
+};
+
+// Timezone and locale for showing dates, remembered on this device
+export const useDisplaySettings = () => {
+  const [settings, setSettings] = useState<DisplaySettings>(readSettings);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const updateSettings = useCallback((changes: DisplaySettings) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const dateTimeSettings: DateTimeSettings = {
+    timeZone: settings.timeZone || getLocalTimeZone(),
+    locale: settings.locale || getBrowserLocale(),
+  };
+
+  return { settings, dateTimeSettings, updateSettings };
+};
@@ -0,0 +1,18 @@
+import { useEffect, useRef, useState } from 'react';
+import { LiveConnectionStatus, subscribeToLadderEvents } from '../services/liveService';
+
+// Runs `onUpdate` whenever the ladder changes elsewhere (another tab, device or
+// scorekeeper) and reports how the updates are being received.
+export const useLiveUpdates = (onUpdate: () => void): LiveConnectionStatus => {
+  const [status, setStatus] = useState<LiveConnectionStatus>('connecting');
+  // Always call the latest callback without resubscribing when it changes
+  const onUpdateRef = useRef(onUpdate);
+
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+  }, [onUpdate]);
+
+  useEffect(() => subscribeToLadderEvents(() => onUpdateRef.current(), setStatus), []);
+
+  return status;
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// The current time, refreshed every `intervalMs` so relative times stay current
+export const useNow = (intervalMs = 60 * 1000): number => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(intervalId);
+  }, [intervalMs]);
+
+  return now;
+};
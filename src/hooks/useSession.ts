@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AuthUser,
+  canRefreshSession,
+  getCurrentUser,
+  getTokenRemainingTime,
+  hasActiveSession,
+  isSessionStorageKey,
+  logout,
+  refreshSession
+} from '../services/authService';
+import { UnauthorizedError } from '../services/apiClient';
+
+// Start renewing this long before the token expires
+const REFRESH_BEFORE_EXPIRY_SECONDS = 5 * 60;
+// Warn the user once forced logout is this close (i.e. renewal hasn't worked)
+const WARNING_BEFORE_EXPIRY_SECONDS = 3 * 60;
+const REFRESH_RETRY_MS = 30 * 1000;
+
+export const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please login again.';
+
+// Tracks the login session: renews it silently before the token expires,
+// warns shortly before a forced logout and follows logins/logouts made in
+// other open tabs.
+export const useSession = () => {
+  const [isLoggedIn, setIsLoggedIn] = useState(hasActiveSession());
+  const [user, setUser] = useState<AuthUser | null>(getCurrentUser());
+  const [remainingTime, setRemainingTime] = useState(getTokenRemainingTime());
+  const [sessionMessage, setSessionMessage] = useState<string | null>(null);
+  const lastRefreshAttempt = useRef(0);
+  const refreshRejected = useRef(false);
+
+  const startSession = useCallback(() => {
+    refreshRejected.current = false;
+    setSessionMessage(null);
+    setRemainingTime(getTokenRemainingTime());
+    setUser(getCurrentUser());
+    setIsLoggedIn(true);
+  }, []);
+
+  const endSession = useCallback((message: string | null = null) => {
+    logout();
+    setIsLoggedIn(false);
+    setUser(null);
+    setRemainingTime(0);
+    setSessionMessage(message);
+  }, []);
+
+  const renewSession = useCallback(async () => {
+    lastRefreshAttempt.current = new Date().getTime();
+    try {
+      if (await refreshSession()) {
+        setRemainingTime(getTokenRemainingTime());
+      }
+    } catch (err) {
+      console.error('Failed to refresh session:', err);
+      // A rejected refresh token won't start working on retry
+      if (err instanceof UnauthorizedError) refreshRejected.current = true;
+    }
+  }, []);
+
+  // A single ticking timer drives renewal, the warning and forced logout
+  useEffect(() => {
+    if (!isLoggedIn) return;
+
+    const tick = () => {
+      const remaining = getTokenRemainingTime();
+      // Only the warning shows the countdown, so keep the old value (no
+      // re-render) until the warning window, and once more when renewal leaves it
+      setRemainingTime(prev =>
+        remaining <= WARNING_BEFORE_EXPIRY_SECONDS || prev <= WARNING_BEFORE_EXPIRY_SECONDS ? remaining : prev
+      );
+
+      if (remaining <= 0) {
+        endSession(SESSION_EXPIRED_MESSAGE);
+        return;
+      }
+
+      const retryDue = new Date().getTime() - lastRefreshAttempt.current > REFRESH_RETRY_MS;
+      if (remaining <= REFRESH_BEFORE_EXPIRY_SECONDS && canRefreshSession() && !refreshRejected.current && retryDue) {
+        renewSession();
+      }
+    };
+
+    tick();
+    const intervalId = setInterval(tick, 1000);
+    return () => clearInterval(intervalId);
+  }, [isLoggedIn, endSession, renewSession]);
+
+  // Follow logins, logouts and renewals made in other tabs
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (!isSessionStorageKey(e.key)) return;
+
+      const active = hasActiveSession();
+      setIsLoggedIn(active);
+      setUser(active ? getCurrentUser() : null);
+      setRemainingTime(getTokenRemainingTime());
+      if (active) {
+        refreshRejected.current = false;
+        setSessionMessage(null);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  return {
+    isLoggedIn,
+    user,
+    remainingTime,
+    sessionMessage,
+    showExpiryWarning: isLoggedIn && remainingTime > 0 && remainingTime <= WARNING_BEFORE_EXPIRY_SECONDS,
+    canRenew: canRefreshSession() && !refreshRejected.current,
+    startSession,
+    endSession,
+    renewSession,
+  };
+};
@@ -0,0 +1,151 @@
+import axios, { Method } from 'axios';
+import { API_BASE_URL, getAuthHeaders } from '../config/api';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+// Only these are safe to send twice; a retried POST could record a match twice
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+export class ApiError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// The request never got a response: offline, DNS failure or timeout
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// The API refused the request body (400 / 422)
+export class ValidationError extends ApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'ValidationError';
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+interface RequestOptions {
+  params?: URLSearchParams | Record<string, unknown>;
+  body?: unknown;
+  // Send the request without the stored auth token (e.g. for login itself)
+  skipAuth?: boolean;
+  // Override the default retry count; non-idempotent calls never retry by default
+  retries?: number;
+}
+
+const http = axios.create({
+  baseURL: API_BASE_URL,
+  timeout: REQUEST_TIMEOUT_MS,
+});
+
+let unauthorizedHandler: (() => void) | null = null;
+
+// Register what to do when an authenticated request comes back 401 (usually: log out)
+export const setUnauthorizedHandler = (handler: (() => void) | null): void => {
+  unauthorizedHandler = handler;
+};
+
+http.interceptors.response.use(
+  response => response,
+  error => {
+    if (axios.isAxiosError(error) && error.response?.status === 401 && error.config?.headers?.Authorization) {
+      unauthorizedHandler?.();
+    }
+    return Promise.reject(error);
+  }
+);
+
+// Convert whatever axios threw into one of our typed errors
+const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (!axios.isAxiosError(error)) {
+    return new ApiError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (!error.response) {
+    return new NetworkError(error.code === 'ECONNABORTED' ? 'Request timed out' : error.message);
+  }
+
+  const { status, data } = error.response;
+  const message = (data && typeof data === 'object' && 'message' in data && typeof data.message === 'string')
+    ? data.message
+    : `API error: ${status}`;
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, status);
+    case 401:
+    case 403:
+      return new UnauthorizedError(message, status);
+    case 404:
+      return new NotFoundError(message);
+    default:
+      return new ApiError(message, status);
+  }
+};
+
+// The API was unreachable or failed on its side, so the same request may well work later
+export const isTransientError = (error: unknown): boolean =>
+  error instanceof NetworkError || (error instanceof ApiError && error.status !== undefined && error.status >= 500);
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const request = async <T>(method: Method, endpoint: string, options: RequestOptions = {}): Promise<T> => {
+  const maxRetries = options.retries ?? (IDEMPOTENT_METHODS.includes(method.toLowerCase()) ? MAX_RETRIES : 0);
+  const headers = options.skipAuth ? { 'Content-Type': 'application/json' } : getAuthHeaders();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await http.request<T>({
+        method,
+        url: endpoint,
+        params: options.params,
+        data: options.body,
+        headers,
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (attempt >= maxRetries || !isTransientError(apiError)) {
+        throw apiError;
+      }
+      // Exponential backoff: 500ms, 1s, 2s, ...
+      await delay(RETRY_BASE_DELAY_MS * 2 ** attempt);
+    }
+  }
+};
+
+export const apiClient = {
+  get: <T>(endpoint: string, options?: Omit<RequestOptions, 'body'>) => request<T>('get', endpoint, options),
+  post: <T>(endpoint: string, body?: unknown, options?: RequestOptions) => request<T>('post', endpoint, { ...options, body }),
+  put: <T>(endpoint: string, body?: unknown, options?: RequestOptions) => request<T>('put', endpoint, { ...options, body }),
+  delete: <T = void>(endpoint: string, options?: RequestOptions) => request<T>('delete', endpoint, options),
+};
+
+// Readable message for any error thrown by the API client or services
+export const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
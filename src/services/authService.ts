@@ -1,12 +1,17 @@
-import { getApiUrl } from '../config/api';
+import { API_ENDPOINTS } from '../config/api';
+import { apiClient } from './apiClient';
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  role?: string;
+}
 
 export interface AuthResponse {
   token: string;
-  user: {
-    id: number;
-    username: string;
-    role?: string;
-  };
+  // Issued when the server supports silent renewal
+  refreshToken?: string;
+  user: AuthUser;
 }
 
 export interface LoginCredentials {
@@ -14,42 +19,111 @@ export interface LoginCredentials {
   password: string;
 }
 
-export const login = async (credentials: LoginCredentials): Promise<AuthResponse | string> => {
+const TOKEN_KEY = 'auth_token';
+const EXPIRATION_KEY = 'token_expiration';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const USER_KEY = 'auth_user';
+const REFRESH_LOCK_KEY = 'auth_refresh_lock';
+const REFRESH_LOCK_TTL_MS = 15 * 1000;
+
+// Used when a token carries no `exp` claim
+const DEFAULT_SESSION_LENGTH_MS = 60 * 60 * 1000;
+
+// Read the `exp` claim (seconds since epoch) from a JWT, in milliseconds
+export const getTokenExpiration = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+
+    // JWTs use unpadded base64url
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+    const claims = JSON.parse(atob(base64));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeSession = (data: AuthResponse): void => {
+  const expirationTime = getTokenExpiration(data.token) ?? new Date().getTime() + DEFAULT_SESSION_LENGTH_MS;
+
+  // Write the expiration before the token: other tabs react to the token key
+  // and must not see a new token paired with the old expiration
+  localStorage.setItem(EXPIRATION_KEY, expirationTime.toString());
+  if (data.refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, data.refreshToken);
+  }
+  // Refresh responses may omit the user; keep the one from login then
+  if (data.user) {
+    localStorage.setItem(USER_KEY, JSON.stringify(data.user));
+  }
+  localStorage.setItem(TOKEN_KEY, data.token);
+};
+
+export const login = async (credentials: LoginCredentials): Promise<AuthResponse> => {
+  const data = await apiClient.post<AuthResponse>(API_ENDPOINTS.AUTH.LOGIN, credentials, { skipAuth: true });
+  storeSession(data);
+  return data;
+};
+
+export const canRefreshSession = (): boolean => !!localStorage.getItem(REFRESH_TOKEN_KEY);
+
+// Take a short-lived lock so only one open tab refreshes; the others pick up
+// the new token through storage events
+const acquireRefreshLock = (): boolean => {
+  const now = new Date().getTime();
+  const lockedAt = parseInt(localStorage.getItem(REFRESH_LOCK_KEY) || '0', 10);
+  if (now - lockedAt < REFRESH_LOCK_TTL_MS) return false;
+
+  localStorage.setItem(REFRESH_LOCK_KEY, now.toString());
+  return true;
+};
+
+// Exchange the refresh token for a new session. Resolves to false if another
+// tab is already refreshing.
+export const refreshSession = async (): Promise<boolean> => {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken || !acquireRefreshLock()) return false;
+
   try {
-    const response = await fetch(`${getApiUrl('/api/auth/login')}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(credentials),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.message || 'Login failed');
-    }
-
-    const data = await response.json();
-    
-    // Calculate expiration time (1 hour from now)
-    const expirationTime = new Date().getTime() + (60 * 60 * 1000); // 1 hour in milliseconds
-    
-    // Store token and its expiration time in localStorage
-    localStorage.setItem('auth_token', data.token);
-    localStorage.setItem('token_expiration', expirationTime.toString());
-    
-    return data;
-  } catch (error) {
-    console.error('Login error:', error);
-    return error instanceof Error ? error.message : 'An unknown error occurred';
+    const data = await apiClient.post<AuthResponse>(
+      API_ENDPOINTS.AUTH.REFRESH,
+      { refreshToken },
+      { skipAuth: true }
+    );
+    storeSession(data);
+    return true;
+  } finally {
+    localStorage.removeItem(REFRESH_LOCK_KEY);
   }
 };
 
 export const logout = (): void => {
-  localStorage.removeItem('auth_token');
-  localStorage.removeItem('token_expiration');
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+  localStorage.removeItem(EXPIRATION_KEY);
 };
 
+// The user the current token was issued to, as stored at login
+export const getCurrentUser = (): AuthUser | null => {
+  if (!hasActiveSession()) return null;
+  try {
+    const stored = localStorage.getItem(USER_KEY);
+    return stored ? (JSON.parse(stored) as AuthUser) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Whether a storage event (e.g. from another tab) touched the session
+export const isSessionStorageKey = (key: string | null): boolean =>
+  key === null || key === TOKEN_KEY || key === EXPIRATION_KEY || key === USER_KEY;
+
+// Side-effect free check, safe to call from storage event handlers
+export const hasActiveSession = (): boolean =>
+  !!localStorage.getItem(TOKEN_KEY) && !isTokenExpired();
+
 export const getToken = (): string | null => {
   // First check if token has expired
   if (isTokenExpired()) {
@@ -57,7 +131,7 @@ export const getToken = (): string | null => {
     logout();
     return null;
   }
-  return localStorage.getItem('auth_token');
+  return localStorage.getItem(TOKEN_KEY);
 };
 
 export const isAuthenticated = (): boolean => {
@@ -67,7 +141,7 @@ export const isAuthenticated = (): boolean => {
 
 // Helper function to check if token is expired
 export const isTokenExpired = (): boolean => {
-  const expiration = localStorage.getItem('token_expiration');
+  const expiration = localStorage.getItem(EXPIRATION_KEY);
   if (!expiration) return true;
   
   const expirationTime = parseInt(expiration, 10);
@@ -78,7 +152,7 @@ export const isTokenExpired = (): boolean => {
 
 // Get remaining token validity in seconds
 export const getTokenRemainingTime = (): number => {
-  const expiration = localStorage.getItem('token_expiration');
+  const expiration = localStorage.getItem(EXPIRATION_KEY);
   if (!expiration) return 0;
   
   const expirationTime = parseInt(expiration, 10);
@@ -0,0 +1,44 @@
+import { API_ENDPOINTS } from '../config/api';
+import { apiClient, ValidationError } from './apiClient';
+
+export type ChallengeStatus = 'pending' | 'accepted' | 'completed' | 'forfeited';
+
+export interface Challenge {
+  id: number;
+  challengerId: string;
+  defenderId: string;
+  status: ChallengeStatus;
+  createdAt: string;
+  // Unplayed challenges past this can be forfeited
+  deadline: string;
+  // The recorded match that settled the challenge, and who won it
+  matchId?: number | null;
+  winnerId?: string | null;
+  // Player who gave up the challenge, for forfeited ones
+  forfeitedBy?: string | null;
+}
+
+export interface CreateChallengeRequest {
+  challengerId: string;
+  defenderId: string;
+  deadline: string;
+}
+
+export const fetchChallenges = (seasonId?: number | null): Promise<Challenge[]> =>
+  apiClient.get<Challenge[]>(API_ENDPOINTS.CHALLENGES.LIST, {
+    params: { seasonId: seasonId ?? undefined }
+  });
+
+export const createChallenge = async (challengeData: CreateChallengeRequest): Promise<Challenge> => {
+  if (!challengeData.challengerId || !challengeData.defenderId || challengeData.challengerId === challengeData.defenderId) {
+    throw new ValidationError('Pick two different players for the challenge');
+  }
+  return apiClient.post<Challenge>(API_ENDPOINTS.CHALLENGES.CREATE, challengeData);
+};
+
+export const acceptChallenge = (challengeId: number): Promise<Challenge> =>
+  apiClient.post<Challenge>(`${API_ENDPOINTS.CHALLENGES.ACCEPT}/${challengeId}/accept`);
+
+// `playerId` gives up the challenge, e.g. a defender who didn't play by the deadline
+export const forfeitChallenge = (challengeId: number, playerId: string): Promise<Challenge> =>
+  apiClient.post<Challenge>(`${API_ENDPOINTS.CHALLENGES.FORFEIT}/${challengeId}/forfeit`, { playerId });
@@ -1,4 +1,5 @@
-import { getApiUrl, API_ENDPOINTS } from '../config/api';
+import { API_ENDPOINTS } from '../config/api';
+import { apiClient } from './apiClient';
 
 export interface Character {
   id: number;
@@ -6,32 +7,21 @@ export interface Character {
   icon_name: string;
 }
 
-export const fetchCharacters = async (): Promise<{ data: Character[], error: string | null }> => {
-  try {
-    const response = await fetch(getApiUrl(API_ENDPOINTS.CHARACTERS.LIST));
-    
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    return { data, error: null };
-  } catch (err) {
-    console.error("Failed to fetch characters:", err);
-    
-    // Fallback to default characters if API fails
-    const defaultCharacters: Character[] = [
-      { id: 1, name: 'Mario', icon_name: 'mario' },
-      { id: 2, name: 'Luigi', icon_name: 'luigi' },
-      { id: 3, name: 'Peach', icon_name: 'peach' },
-      { id: 4, name: 'Bowser', icon_name: 'bowser' },
-      { id: 5, name: 'Yoshi', icon_name: 'yoshi' },
-      { id: 6, name: 'Toad', icon_name: 'toad' },
-    ];
-    
-    return { 
-      data: defaultCharacters, 
-      error: "Failed to load characters. Using default data."
-    };
-  }
+// Look up a character by id, e.g. to resolve the characters recorded on a match
+export const findCharacter = (characters: Character[], id?: number | null): Character | undefined => {
+  if (id === undefined || id === null) return undefined;
+  return characters.find(c => c.id === id);
 };
+
+// Default fallback data when API fails
+export const defaultCharacters: Character[] = [
+  { id: 1, name: 'Mario', icon_name: 'mario' },
+  { id: 2, name: 'Luigi', icon_name: 'luigi' },
+  { id: 3, name: 'Peach', icon_name: 'peach' },
+  { id: 4, name: 'Bowser', icon_name: 'bowser' },
+  { id: 5, name: 'Yoshi', icon_name: 'yoshi' },
+  { id: 6, name: 'Toad', icon_name: 'toad' },
+];
+
+export const fetchCharacters = (): Promise<Character[]> =>
+  apiClient.get<Character[]>(API_ENDPOINTS.CHARACTERS.LIST);
@@ -0,0 +1,78 @@
+import { API_ENDPOINTS, getApiUrl } from '../config/api';
+
+export type LadderEventType = 'match-recorded' | 'match-annulled';
+
+// Something changed on the ladder, e.g. another scorekeeper recorded a match
+export interface LadderEvent {
+  type: LadderEventType;
+  matchId?: number;
+}
+
+export type LiveConnectionStatus = 'connecting' | 'live' | 'polling';
+
+const LADDER_EVENT_TYPES: LadderEventType[] = ['match-recorded', 'match-annulled'];
+const POLL_INTERVAL_MS = 15 * 1000;
+// Give up on the event stream after this many errors in a row and poll instead
+const MAX_STREAM_FAILURES = 3;
+
+// Calls `onChange` whenever anyone records or annuls a match. Uses Server-Sent
+// Events when the browser and API support them and falls back to polling, in
+// which case `onChange` gets no event and the caller should simply reload.
+// Returns a function that ends the subscription.
+export const subscribeToLadderEvents = (
+  onChange: (event: LadderEvent | null) => void,
+  onStatus: (status: LiveConnectionStatus) => void
+): (() => void) => {
+  let source: EventSource | null = null;
+  let pollId: ReturnType<typeof setInterval> | null = null;
+  let failures = 0;
+
+  const startPolling = () => {
+    source?.close();
+    source = null;
+    if (pollId) return;
+    onStatus('polling');
+    pollId = setInterval(() => onChange(null), POLL_INTERVAL_MS);
+  };
+
+  if (typeof EventSource === 'undefined') {
+    startPolling();
+  } else {
+    onStatus('connecting');
+    source = new EventSource(getApiUrl(API_ENDPOINTS.EVENTS.STREAM));
+
+    source.onopen = () => {
+      // Events may have been missed while reconnecting
+      if (failures > 0) onChange(null);
+      failures = 0;
+      onStatus('live');
+    };
+
+    source.onerror = () => {
+      failures++;
+      // A closed stream (e.g. a 404 or non-SSE response) is never retried by the browser
+      if (source?.readyState === EventSource.CLOSED || failures >= MAX_STREAM_FAILURES) {
+        startPolling();
+      } else {
+        onStatus('connecting');
+      }
+    };
+
+    LADDER_EVENT_TYPES.forEach(type => {
+      source?.addEventListener(type, (e: MessageEvent) => {
+        let data: Partial<LadderEvent> = {};
+        try {
+          data = JSON.parse(e.data);
+        } catch {
+          // The event type alone is enough to reload
+        }
+        onChange({ ...data, type });
+      });
+    });
+  }
+
+  return () => {
+    source?.close();
+    if (pollId) clearInterval(pollId);
+  };
+};
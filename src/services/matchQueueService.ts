@@ -0,0 +1,187 @@
+import { SetFormat, SetGame, submitSet, validateSet } from './matchService';
+import { UnauthorizedError, ValidationError, getErrorMessage, isTransientError } from './apiClient';
+
+const QUEUE_STORAGE_KEY = 'pending_matches';
+const REPLAY_LOCK_KEY = 'pending_matches_replay_lock';
+// Longer than one submission can take (the client times out after 10s)
+const REPLAY_LOCK_TTL_MS = 30 * 1000;
+// Identifies this tab as the holder of the replay lock
+const TAB_ID = Math.random().toString(36).slice(2, 10);
+
+export interface QueuedMatch {
+  localId: string;
+  player1Id: string;
+  player2Id: string;
+  format: SetFormat;
+  games: SetGame[];
+  queuedAt: string;
+  status: 'pending' | 'rejected';
+  // Reason the API gave when it refused the match during replay
+  error?: string;
+  challengeId?: number;
+}
+
+export interface ReplayResult {
+  recorded: number;
+  rejected: number;
+  remaining: number;
+}
+
+let replayInProgress = false;
+
+const readReplayLock = (): { owner: string; lockedAt: number } | null => {
+  try {
+    const stored = localStorage.getItem(REPLAY_LOCK_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Take or renew a short-lived lease so only one open tab replays the queue;
+// without it two tabs could send the same pending match
+const acquireReplayLock = (): boolean => {
+  const now = new Date().getTime();
+  const lock = readReplayLock();
+  if (lock && lock.owner !== TAB_ID && now - lock.lockedAt < REPLAY_LOCK_TTL_MS) return false;
+
+  localStorage.setItem(REPLAY_LOCK_KEY, JSON.stringify({ owner: TAB_ID, lockedAt: now }));
+  // Another tab may have written at the same moment; the last write wins
+  return readReplayLock()?.owner === TAB_ID;
+};
+
+const releaseReplayLock = (): void => {
+  if (readReplayLock()?.owner === TAB_ID) localStorage.removeItem(REPLAY_LOCK_KEY);
+};
+
+export const getQueuedMatches = (): QueuedMatch[] => {
+  try {
+    const stored = localStorage.getItem(QUEUE_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as QueuedMatch[]) : [];
+  } catch (error) {
+    console.error('Failed to read match queue:', error);
+    return [];
+  }
+};
+
+const saveQueue = (queue: QueuedMatch[]): void => {
+  if (queue.length === 0) {
+    localStorage.removeItem(QUEUE_STORAGE_KEY);
+  } else {
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  }
+};
+
+const updateQueuedMatch = (localId: string, changes: Partial<QueuedMatch> | null): void => {
+  const queue = getQueuedMatches();
+  saveQueue(changes === null
+    ? queue.filter(m => m.localId !== localId)
+    : queue.map(m => (m.localId === localId ? { ...m, ...changes } : m)));
+};
+
+export const enqueueMatch = (
+  player1Id: string,
+  player2Id: string,
+  format: SetFormat,
+  games: SetGame[],
+  challengeId?: number
+): QueuedMatch => {
+  const entry: QueuedMatch = {
+    localId: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    player1Id,
+    player2Id,
+    format,
+    games,
+    queuedAt: new Date().toISOString(),
+    status: 'pending',
+    challengeId,
+  };
+
+  saveQueue([...getQueuedMatches(), entry]);
+  return entry;
+};
+
+// Drop a queued match, e.g. after the scorekeeper has reviewed a rejection
+export const dismissQueuedMatch = (localId: string): void => {
+  updateQueuedMatch(localId, null);
+};
+
+// Put a rejected match back in line to be tried again
+export const retryQueuedMatch = (localId: string): void => {
+  updateQueuedMatch(localId, { status: 'pending', error: undefined });
+};
+
+// Record a set, or keep it in the local queue when the API can't be reached or fails.
+// Throws only when the match itself was refused.
+export const recordSetOrQueue = async (
+  player1Id: string,
+  player2Id: string,
+  format: SetFormat,
+  games: SetGame[],
+  challengeId?: number
+): Promise<'recorded' | 'queued'> => {
+  const validationError = validateSet(player1Id, player2Id, format, games);
+  if (validationError) {
+    throw new ValidationError(validationError);
+  }
+
+  // Keep the queue in order: never let a new match overtake older pending ones
+  const hasPending = getQueuedMatches().some(m => m.status === 'pending');
+  if (!navigator.onLine || hasPending) {
+    enqueueMatch(player1Id, player2Id, format, games, challengeId);
+    if (navigator.onLine) await replayQueuedMatches();
+    return 'queued';
+  }
+
+  try {
+    await submitSet(player1Id, player2Id, format, games, undefined, challengeId);
+    return 'recorded';
+  } catch (error) {
+    if (isTransientError(error)) {
+      enqueueMatch(player1Id, player2Id, format, games, challengeId);
+      return 'queued';
+    }
+    throw error;
+  }
+};
+
+// Send pending matches in the order they were queued. Stops at the first
+// network or server failure so later matches are never recorded ahead of
+// earlier ones, and when the session has expired, so the matches wait for the
+// next login; matches the API rejects are kept and flagged for the scorekeeper.
+// Only one tab replays at a time; the others leave the queue alone.
+export const replayQueuedMatches = async (): Promise<ReplayResult> => {
+  const result: ReplayResult = { recorded: 0, rejected: 0, remaining: 0 };
+  if (replayInProgress || !acquireReplayLock()) {
+    result.remaining = getQueuedMatches().filter(m => m.status === 'pending').length;
+    return result;
+  }
+
+  replayInProgress = true;
+  try {
+    for (const entry of getQueuedMatches().filter(m => m.status === 'pending')) {
+      // Renew the lease for each match, and stop if another tab took it over
+      if (!acquireReplayLock()) break;
+      // Another tab may have sent or dismissed this match since the queue was read
+      if (!getQueuedMatches().some(m => m.localId === entry.localId && m.status === 'pending')) continue;
+      try {
+        // Send the time the match was played, not the time it finally synced
+        await submitSet(entry.player1Id, entry.player2Id, entry.format, entry.games, entry.queuedAt, entry.challengeId);
+        updateQueuedMatch(entry.localId, null);
+        result.recorded++;
+      } catch (error) {
+        if (isTransientError(error) || error instanceof UnauthorizedError) break;
+
+        console.error('Queued match rejected:', error);
+        updateQueuedMatch(entry.localId, { status: 'rejected', error: getErrorMessage(error) });
+        result.rejected++;
+      }
+    }
+  } finally {
+    replayInProgress = false;
+    releaseReplayLock();
+  }
+
+  result.remaining = getQueuedMatches().filter(m => m.status === 'pending').length;
+  return result;
+};
@@ -1,5 +1,27 @@
-import axios from 'axios';
-import { getApiUrl, API_ENDPOINTS, getAuthHeaders } from '../config/api';
+import { API_ENDPOINTS } from '../config/api';
+import { apiClient, ValidationError } from './apiClient';
+import { getZonedDayBounds } from '../utils/dateTime';
+
+// The character (and skin) a player used in a match
+export interface MatchCharacter {
+  characterId: number;
+  skin: number;
+}
+
+export type SetFormat = 'BO1' | 'BO3' | 'BO5';
+
+export const SET_FORMATS: Record<SetFormat, { label: string; gamesToWin: number }> = {
+  BO1: { label: 'Best of 1', gamesToWin: 1 },
+  BO3: { label: 'Best of 3', gamesToWin: 2 },
+  BO5: { label: 'Best of 5', gamesToWin: 3 },
+};
+
+// A single game of a recorded set
+export interface MatchGame {
+  winnerId: string;
+  winnerCharacter?: MatchCharacter | null;
+  loserCharacter?: MatchCharacter | null;
+}
 
 export interface Match {
   id: number;
@@ -9,8 +31,110 @@ export interface Match {
   eloChange: number;
   winnerCurrentElo: number;
   loserCurrentElo: number;
+  winnerCharacter?: MatchCharacter | null;
+  loserCharacter?: MatchCharacter | null;
+  // Set information; matches recorded before sets were supported have none
+  format?: SetFormat;
+  winnerScore?: number;
+  loserScore?: number;
+  games?: MatchGame[];
+  // Ladder challenge the match settled, if any
+  challengeId?: number | null;
+}
+
+export interface MatchCharacters {
+  player1?: MatchCharacter | null;
+  player2?: MatchCharacter | null;
 }
 
+// A game as entered in the Record Match form, relative to player 1 / player 2
+export interface SetGame {
+  winnerId: string;
+  characters?: MatchCharacters;
+}
+
+// A set known only by its score, as brackets and pools report them
+export interface SetResult {
+  winnerId: string;
+  // Games the loser took; the winner always has the format's games to win
+  loserScore: number;
+}
+
+// The games to record for a set reported by its score. Only the score is known, so
+// the loser's games are placed first and the winner clinches the set at the end.
+export const getScoredSetGames = (
+  player1Id: string,
+  player2Id: string,
+  result: SetResult,
+  format: SetFormat
+): SetGame[] => {
+  const loserId = result.winnerId === player1Id ? player2Id : player1Id;
+  return [
+    ...Array.from({ length: result.loserScore }, () => ({ winnerId: loserId })),
+    ...Array.from({ length: SET_FORMATS[format].gamesToWin }, () => ({ winnerId: result.winnerId }))
+  ];
+};
+
+// Count the games won by each player, in player 1 / player 2 order
+export const getSetScore = (player1Id: string, player2Id: string, games: SetGame[]): [number, number] => [
+  games.filter(g => g.winnerId == player1Id).length,
+  games.filter(g => g.winnerId == player2Id).length,
+];
+
+// Returns the id of the player who has clinched the set, or null if it is undecided
+export const getSetWinner = (
+  player1Id: string,
+  player2Id: string,
+  format: SetFormat,
+  games: SetGame[]
+): string | null => {
+  const { gamesToWin } = SET_FORMATS[format];
+  const [player1Wins, player2Wins] = getSetScore(player1Id, player2Id, games);
+
+  if (player1Wins >= gamesToWin) return player1Id;
+  if (player2Wins >= gamesToWin) return player2Id;
+  return null;
+};
+
+// Check that the games form a legal, finished set for the format
+export const validateSet = (
+  player1Id: string,
+  player2Id: string,
+  format: SetFormat,
+  games: SetGame[]
+): string | null => {
+  if (!player1Id || !player2Id || player1Id === player2Id) {
+    return 'Select two different players';
+  }
+  if (games.some(g => g.winnerId != player1Id && g.winnerId != player2Id)) {
+    return 'Every game needs a winner';
+  }
+
+  const { label, gamesToWin } = SET_FORMATS[format];
+  const [player1Wins, player2Wins] = getSetScore(player1Id, player2Id, games);
+
+  if (player1Wins < gamesToWin && player2Wins < gamesToWin) {
+    return `${label} needs ${gamesToWin} game wins for one player`;
+  }
+  if (player1Wins > gamesToWin || player2Wins > gamesToWin || (player1Wins === gamesToWin && player2Wins === gamesToWin)) {
+    return `Score ${player1Wins}-${player2Wins} is not possible in a ${label}`;
+  }
+
+  // The set ends as soon as someone clinches it, so the last game must be the clincher
+  const setWinner = player1Wins === gamesToWin ? player1Id : player2Id;
+  if (games[games.length - 1].winnerId != setWinner) {
+    return 'Games were recorded after the set was already decided';
+  }
+
+  return null;
+};
+
+// "3-1" style score of a recorded set, or null for single games without set data
+export const formatSetScore = (match: Match): string | null => {
+  if (match.winnerScore === undefined || match.loserScore === undefined || match.format === 'BO1') return null;
+  return `${match.winnerScore}-${match.loserScore}`;
+};
+
 export interface MatchFilter {
   playerId?: string;
   winnerId?: string;
@@ -21,99 +145,194 @@ export interface MatchFilter {
   maxEloChange?: number;
   limit?: number;
   offset?: number;
+  // Defaults to the current season on the server
+  seasonId?: number;
+  // Zone the start and end dates are days in; unset leaves them to the server.
+  // Not part of the URL state.
+  timeZone?: string;
 }
 
-export const recordMatch = async (
+export const PAGE_SIZES = [25, 50, 100];
+export const DEFAULT_PAGE_SIZE = 50;
+
+// One page of `filterMatches` results together with the number of matches across all pages
+export interface MatchPage {
+  matches: Match[];
+  total: number;
+}
+
+// Whether the filter narrows down the matches, as opposed to only paging through them
+export const hasFilterCriteria = (filters: MatchFilter): boolean =>
+  (Object.keys(filters) as (keyof MatchFilter)[]).some(
+    key => key !== 'limit' && key !== 'offset' && key !== 'seasonId' && key !== 'timeZone' && filters[key] !== undefined
+  );
+
+// Post an already validated set to the API; most callers want `recordSet`
+export const submitSet = async (
   player1Id: string,
   player2Id: string,
-  winnerId: string
-): Promise<string | null> => {
-  try {
-    if (!player1Id || !player2Id || !winnerId) {
-      return 'Invalid match data';
-    }
+  format: SetFormat,
+  games: SetGame[],
+  timestamp?: string,
+  challengeId?: number
+): Promise<void> => {
+  const winnerId = getSetWinner(player1Id, player2Id, format, games) as string;
+  const [player1Wins, player2Wins] = getSetScore(player1Id, player2Id, games);
+  const player1Won = winnerId == player1Id;
 
-    // Make API call to record the match using the configured API URL with auth headers
-    const response = await axios.post(
-      getApiUrl(API_ENDPOINTS.MATCHES.CREATE), 
-      {
-        playerAId: winnerId,
-        playerBId: winnerId == player2Id ? player1Id : player2Id, // loser
-        winnerId
-      },
-      { headers: getAuthHeaders() as any }
-    );
-
-    if (response.status === 200 || response.status === 201) {
-      return null;
-    } else {
-      throw new Error('Failed to record match');
-    }
-  } catch (error) {
-    console.error('Error recording match:', error);
-    return 'Failed to record match: ' + (error instanceof Error ? error.message : String(error));
-  }
-};
+  const payloadGames = games.map(game => {
+    const player1WonGame = game.winnerId == player1Id;
+    const winnerCharacter = (player1WonGame ? game.characters?.player1 : game.characters?.player2) || null;
+    const loserCharacter = (player1WonGame ? game.characters?.player2 : game.characters?.player1) || null;
+    return {
+      winnerId: game.winnerId,
+      winnerCharacterId: winnerCharacter?.characterId,
+      winnerSkin: winnerCharacter?.skin,
+      loserCharacterId: loserCharacter?.characterId,
+      loserSkin: loserCharacter?.skin
+    };
+  });
 
-export const getRecentMatches = async (): Promise<Match[] | string> => {
-  try {
-    // Make API call to get recent matches using the configured API URL
-    const response = await axios.get(getApiUrl(API_ENDPOINTS.MATCHES.RECENT));
+  // The set-level characters are the ones used in the deciding game
+  const decidingGame = payloadGames[payloadGames.length - 1];
 
-    if (response.status === 200) {
-      return response.data as Match[];
-    } else {
-      throw new Error('Failed to fetch recent matches');
+  await apiClient.post(
+    API_ENDPOINTS.MATCHES.CREATE,
+    {
+      playerAId: winnerId,
+      playerBId: winnerId == player2Id ? player1Id : player2Id, // loser
+      winnerId,
+      winnerCharacterId: decidingGame.winnerCharacterId,
+      winnerSkin: decidingGame.winnerSkin,
+      loserCharacterId: decidingGame.loserCharacterId,
+      loserSkin: decidingGame.loserSkin,
+      format,
+      winnerScore: player1Won ? player1Wins : player2Wins,
+      loserScore: player1Won ? player2Wins : player1Wins,
+      games: payloadGames,
+      timestamp,
+      // The API links the match to the challenge and marks it completed
+      challengeId
     }
-  } catch (error) {
-    console.error('Error fetching recent matches:', error);
-    return 'Failed to fetch recent matches: ' + (error instanceof Error ? error.message : String(error));
+  );
+};
+
+export const recordSet = async (
+  player1Id: string,
+  player2Id: string,
+  format: SetFormat,
+  games: SetGame[],
+  timestamp?: string
+): Promise<void> => {
+  const validationError = validateSet(player1Id, player2Id, format, games);
+  if (validationError) {
+    throw new ValidationError(validationError);
   }
+
+  await submitSet(player1Id, player2Id, format, games, timestamp);
 };
 
-export const filterMatches = async (filters: MatchFilter): Promise<Match[] | string> => {
-  try {
-    // Build query parameters from filters
-    const queryParams = new URLSearchParams();
-    
-    if (filters.playerId) queryParams.append('playerId', filters.playerId);
-    if (filters.winnerId) queryParams.append('winnerId', filters.winnerId);
-    if (filters.loserId) queryParams.append('loserId', filters.loserId);
-    if (filters.startDate) queryParams.append('startDate', filters.startDate);
-    if (filters.endDate) queryParams.append('endDate', filters.endDate);
-    if (filters.minEloChange !== undefined) queryParams.append('minEloChange', filters.minEloChange.toString());
-    if (filters.maxEloChange !== undefined) queryParams.append('maxEloChange', filters.maxEloChange.toString());
-    if (filters.limit) queryParams.append('limit', filters.limit.toString());
-    if (filters.offset) queryParams.append('offset', filters.offset.toString());
-
-    const url = `${getApiUrl(API_ENDPOINTS.MATCHES.FILTER)}?${queryParams.toString()}`;
-    const response = await axios.get(url);
-
-    if (response.status === 200) {
-      return response.data.matches as Match[];
-    } else {
-      throw new Error('Failed to fetch filtered matches');
-    }
-  } catch (error) {
-    console.error('Error fetching filtered matches:', error);
-    return 'Failed to fetch filtered matches: ' + (error instanceof Error ? error.message : String(error));
+// Record a single game (Bo1) between two players. `timestamp` backdates the
+// match, e.g. for results entered after an event.
+export const recordMatch = async (
+  player1Id: string,
+  player2Id: string,
+  winnerId: string,
+  characters: MatchCharacters = {},
+  timestamp?: string
+): Promise<void> => {
+  if (!player1Id || !player2Id || !winnerId) {
+    throw new ValidationError('Invalid match data');
   }
+
+  await recordSet(player1Id, player2Id, 'BO1', [{ winnerId, characters }], timestamp);
 };
 
-export const annulMatch = async (matchId: number): Promise<string | null> => {
-  try {
-    const response = await axios.delete(
-      `${getApiUrl(API_ENDPOINTS.MATCHES.ANNUL)}/${matchId}`,
-      { headers: getAuthHeaders() as any }
-    );
-
-    if (response.status === 200 || response.status === 204) {
-      return null;
-    } else {
-      throw new Error('Failed to annul match');
-    }
-  } catch (error) {
-    console.error('Error annulling match:', error);
-    return 'Failed to annul match: ' + (error instanceof Error ? error.message : String(error));
+export const getRecentMatches = (seasonId?: number | null): Promise<Match[]> =>
+  apiClient.get<Match[]>(API_ENDPOINTS.MATCHES.RECENT, {
+    params: { seasonId: seasonId ?? undefined }
+  });
+
+// Convert a filter into query parameters, skipping unset values
+export const matchFilterToParams = (filters: MatchFilter): URLSearchParams => {
+  const queryParams = new URLSearchParams();
+
+  if (filters.playerId) queryParams.append('playerId', filters.playerId);
+  if (filters.winnerId) queryParams.append('winnerId', filters.winnerId);
+  if (filters.loserId) queryParams.append('loserId', filters.loserId);
+  if (filters.startDate) queryParams.append('startDate', filters.startDate);
+  if (filters.endDate) queryParams.append('endDate', filters.endDate);
+  if (filters.minEloChange !== undefined) queryParams.append('minEloChange', filters.minEloChange.toString());
+  if (filters.maxEloChange !== undefined) queryParams.append('maxEloChange', filters.maxEloChange.toString());
+  if (filters.limit) queryParams.append('limit', filters.limit.toString());
+  if (filters.offset) queryParams.append('offset', filters.offset.toString());
+  if (filters.seasonId !== undefined) queryParams.append('seasonId', filters.seasonId.toString());
+
+  return queryParams;
+};
+
+// Read a filter back from query parameters (e.g. the page URL), ignoring malformed numbers
+export const matchFilterFromParams = (params: URLSearchParams): MatchFilter => {
+  const getString = (key: string) => params.get(key) || undefined;
+  const getNumber = (key: string) => {
+    const value = params.get(key);
+    if (value === null || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+
+  const filters: MatchFilter = {
+    playerId: getString('playerId'),
+    winnerId: getString('winnerId'),
+    loserId: getString('loserId'),
+    startDate: getString('startDate'),
+    endDate: getString('endDate'),
+    minEloChange: getNumber('minEloChange'),
+    maxEloChange: getNumber('maxEloChange'),
+    limit: getNumber('limit'),
+    offset: getNumber('offset'),
+  };
+
+  // Drop unset keys so the result compares cleanly against a fresh filter object
+  (Object.keys(filters) as (keyof MatchFilter)[]).forEach(key => {
+    if (filters[key] === undefined) delete filters[key];
+  });
+
+  return filters;
+};
+
+// Query parameters for the API: with a timezone, the start and end days are
+// sent as the exact instants they begin and end in that zone
+const matchFilterToRequestParams = (filters: MatchFilter): URLSearchParams => {
+  const params = matchFilterToParams(filters);
+  if (!filters.timeZone) return params;
+
+  const start = filters.startDate && getZonedDayBounds(filters.startDate, filters.timeZone);
+  const end = filters.endDate && getZonedDayBounds(filters.endDate, filters.timeZone);
+  if (start) params.set('startDate', start.start.toISOString());
+  if (end) params.set('endDate', end.end.toISOString());
+  return params;
+};
+
+export const filterMatchesPage = async (filters: MatchFilter): Promise<MatchPage> => {
+  const data = await apiClient.get<MatchPage>(API_ENDPOINTS.MATCHES.FILTER, {
+    params: matchFilterToRequestParams(filters)
+  });
+  return { matches: data.matches, total: data.total };
+};
+
+export const filterMatches = async (filters: MatchFilter): Promise<Match[]> =>
+  (await filterMatchesPage(filters)).matches;
+
+// Every match across all pages of a filter, fetched `batchSize` at a time
+export const filterAllMatches = async (filters: MatchFilter, batchSize = 100): Promise<Match[]> => {
+  const matches: Match[] = [];
+  for (;;) {
+    const page = await filterMatchesPage({ ...filters, limit: batchSize, offset: matches.length });
+    matches.push(...page.matches);
+    if (page.matches.length === 0 || matches.length >= page.total) return matches;
   }
 };
+
+export const annulMatch = (matchId: number): Promise<void> =>
+  apiClient.delete(`${API_ENDPOINTS.MATCHES.ANNUL}/${matchId}`);
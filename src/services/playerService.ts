@@ -1,7 +1,8 @@
-import { getApiUrl, API_ENDPOINTS, getAuthHeaders } from '../config/api';
+import { API_ENDPOINTS } from '../config/api';
+import { apiClient } from './apiClient';
 
 // Default fallback data when API fails
-const defaultPlayers = [
+export const defaultPlayers: Player[] = [
   { 
     id: 1, 
     name: 'Franco', 
@@ -57,28 +58,20 @@ export interface Player {
     name: string;
     icon_name: string;
   };
+  // Retired players are hidden from the ladder but kept for match history
+  retired?: boolean;
 }
 
-export const fetchPlayers = async (): Promise<{ data: Player[], error: string | null }> => {
-  try {
-    // Use the configured API URL for player endpoint
-    const response = await fetch(getApiUrl(API_ENDPOINTS.PLAYERS.LIST));
-    
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    return { data, error: null };
-  } catch (err) {
-    console.error("Failed to fetch players:", err);
-    // Fallback to default data if API fails
-    return { 
-      data: defaultPlayers, 
-      error: "Failed to load players. Using default data."
-    };
-  }
-};
+// Includes retired players so names in match history still resolve.
+// Without a season the standings of the current season are returned.
+export const fetchPlayers = (seasonId?: number | null): Promise<Player[]> =>
+  apiClient.get<Player[]>(API_ENDPOINTS.PLAYERS.LIST, {
+    params: { includeRetired: true, seasonId: seasonId ?? undefined }
+  });
+
+// Players that should appear on the ladder and in the Record Match selects
+export const getActivePlayers = (players: Player[]): Player[] =>
+  players.filter(player => !player.retired);
 
 export interface CreatePlayerRequest {
   name: string;
@@ -86,22 +79,24 @@ export interface CreatePlayerRequest {
   skin?: number;
 }
 
-export const addPlayer = async (playerData: CreatePlayerRequest): Promise<Player | string> => {
-  try {
-    const response = await fetch(getApiUrl(API_ENDPOINTS.PLAYERS.CREATE), {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify(playerData)
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.message || `API error: ${response.status}`);
-    }
-    
-    return await response.json();
-  } catch (err) {
-    console.error("Failed to add player:", err);
-    return err instanceof Error ? err.message : 'An unknown error occurred';
-  }
-};
+export const addPlayer = (playerData: CreatePlayerRequest): Promise<Player> =>
+  apiClient.post<Player>(API_ENDPOINTS.PLAYERS.CREATE, playerData);
+
+export interface UpdatePlayerRequest {
+  name?: string;
+  main?: number;
+  skin?: number;
+}
+
+export const updatePlayer = (playerId: number, playerData: UpdatePlayerRequest): Promise<Player> =>
+  apiClient.put<Player>(`${API_ENDPOINTS.PLAYERS.UPDATE}/${playerId}`, playerData);
+
+export const retirePlayer = (playerId: number): Promise<Player> =>
+  apiClient.post<Player>(`${API_ENDPOINTS.PLAYERS.RETIRE}/${playerId}`);
+
+export const reactivatePlayer = (playerId: number): Promise<Player> =>
+  apiClient.post<Player>(`${API_ENDPOINTS.PLAYERS.REACTIVATE}/${playerId}`);
+
+// Move all of `sourceId`'s matches onto `targetId` and remove the source player
+export const mergePlayers = (sourceId: number, targetId: number): Promise<Player> =>
+  apiClient.post<Player>(API_ENDPOINTS.PLAYERS.MERGE, { sourceId, targetId });
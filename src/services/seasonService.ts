@@ -0,0 +1,27 @@
+import { API_ENDPOINTS } from '../config/api';
+import { apiClient } from './apiClient';
+
+// Rating everyone starts a new season with unless another one is chosen
+export const DEFAULT_BASE_ELO = 1500;
+
+export interface Season {
+  id: number;
+  name: string;
+  startDate: string;
+  // Set once the season has been closed; past seasons are read-only
+  endDate?: string | null;
+}
+
+export interface StartSeasonRequest {
+  name: string;
+  baseElo: number;
+}
+
+export const isArchivedSeason = (season?: Season | null): boolean => !!season?.endDate;
+
+export const fetchSeasons = (): Promise<Season[]> =>
+  apiClient.get<Season[]>(API_ENDPOINTS.SEASONS.LIST);
+
+// Close the current season, archiving its standings and matches, and reset everyone to `baseElo`
+export const startSeason = (seasonData: StartSeasonRequest): Promise<Season> =>
+  apiClient.post<Season>(API_ENDPOINTS.SEASONS.START, seasonData);
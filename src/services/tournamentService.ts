@@ -0,0 +1,190 @@
+import { API_ENDPOINTS } from '../config/api';
+import { apiClient, ValidationError, getErrorMessage } from './apiClient';
+import { SetFormat, SetResult, getScoredSetGames, recordSet } from './matchService';
+import { BracketFormat, resolveBracket } from '../utils/bracket';
+import { schedulePools } from '../utils/roundRobin';
+
+export interface Tournament {
+  id: number;
+  name: string;
+  format: BracketFormat;
+  setFormat: SetFormat;
+  createdAt: string;
+  // Player ids in seed order, top seed first
+  entrants: string[];
+  // Winner id of each reported bracket match, keyed by bracket match id
+  results: Record<string, string>;
+}
+
+// A league night: everyone plays everyone else in their pool
+export interface RoundRobin {
+  id: number;
+  name: string;
+  setFormat: SetFormat;
+  createdAt: string;
+  // Player ids of each pool, in seed order
+  pools: string[][];
+  // Result of each reported set, keyed by pool set id
+  results: Record<string, SetResult>;
+}
+
+export interface CreateTournamentRequest {
+  name: string;
+  format: BracketFormat;
+  setFormat: SetFormat;
+  entrants: string[];
+}
+
+// The set made it onto the ladder but the bracket or pool was not updated.
+// Reporting it again would record it twice, so only its result should be saved again.
+export class UnsavedResultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsavedResultError';
+  }
+}
+
+const UNSAVED_RESULTS_KEY = 'unsaved_event_results';
+
+// Sets on the ladder whose result the bracket or pool didn't take, keyed by
+// getTournamentResultKey / getPoolResultKey. Kept in localStorage so that
+// after a reload they still can't be reported a second time.
+export const getUnsavedResults = (): Record<string, SetResult> => {
+  try {
+    const stored = localStorage.getItem(UNSAVED_RESULTS_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, SetResult>) : {};
+  } catch (error) {
+    console.error('Failed to read unsaved results:', error);
+    return {};
+  }
+};
+
+const setUnsavedResult = (key: string, result: SetResult | null): void => {
+  const unsaved = getUnsavedResults();
+  if (result) {
+    unsaved[key] = result;
+  } else {
+    delete unsaved[key];
+  }
+
+  if (Object.keys(unsaved).length === 0) {
+    localStorage.removeItem(UNSAVED_RESULTS_KEY);
+  } else {
+    localStorage.setItem(UNSAVED_RESULTS_KEY, JSON.stringify(unsaved));
+  }
+};
+
+export const getTournamentResultKey = (tournament: Tournament, matchId: string): string =>
+  `tournament:${tournament.id}:${matchId}`;
+
+export const getPoolResultKey = (roundRobin: RoundRobin, setId: string): string =>
+  `roundRobin:${roundRobin.id}:${setId}`;
+
+// Save the result of a set that is already on the ladder. PUT, so the client can safely retry it.
+const saveResult = async <T>(key: string, endpoint: string, body: unknown, failure: string): Promise<T> => {
+  try {
+    const updated = await apiClient.put<T>(endpoint, body);
+    setUnsavedResult(key, null);
+    return updated;
+  } catch (err) {
+    throw new UnsavedResultError(`${failure}: ${getErrorMessage(err)}`);
+  }
+};
+
+export const fetchTournaments = (seasonId?: number | null): Promise<Tournament[]> =>
+  apiClient.get<Tournament[]>(API_ENDPOINTS.TOURNAMENTS.LIST, {
+    params: { seasonId: seasonId ?? undefined }
+  });
+
+export const createTournament = async (tournamentData: CreateTournamentRequest): Promise<Tournament> => {
+  if (!tournamentData.name.trim()) {
+    throw new ValidationError('Tournament name is required');
+  }
+  if (tournamentData.entrants.length < 2) {
+    throw new ValidationError('A bracket needs at least two entrants');
+  }
+  return apiClient.post<Tournament>(API_ENDPOINTS.TOURNAMENTS.CREATE, tournamentData);
+};
+
+// Save a bracket set's result so the bracket advances, without touching the ladder
+export const saveTournamentResult = (tournament: Tournament, matchId: string, winnerId: string): Promise<Tournament> =>
+  saveResult<Tournament>(
+    getTournamentResultKey(tournament, matchId),
+    `${API_ENDPOINTS.TOURNAMENTS.RESULTS}/${tournament.id}/results/${matchId}`,
+    { winnerId },
+    'The set is on the ladder, but the bracket could not be updated'
+  );
+
+// Report a bracket set: it is recorded on the ladder with its score like any
+// other match, then the winner is saved so the bracket advances
+export const reportTournamentSet = async (
+  tournament: Tournament,
+  matchId: string,
+  result: SetResult
+): Promise<Tournament> => {
+  const key = getTournamentResultKey(tournament, matchId);
+  const match = resolveBracket(tournament.entrants, tournament.format, tournament.results).find(m => m.id === matchId);
+  if (!match || match.status !== 'ready' || !match.player1Id || !match.player2Id || getUnsavedResults()[key]) {
+    throw new ValidationError('This set is not ready to be reported');
+  }
+  if (result.winnerId !== match.player1Id && result.winnerId !== match.player2Id) {
+    throw new ValidationError('The winner must be one of the two players');
+  }
+
+  const games = getScoredSetGames(match.player1Id, match.player2Id, result, tournament.setFormat);
+  await recordSet(match.player1Id, match.player2Id, tournament.setFormat, games);
+  setUnsavedResult(key, result);
+  return saveTournamentResult(tournament, matchId, result.winnerId);
+};
+
+export interface CreateRoundRobinRequest {
+  name: string;
+  setFormat: SetFormat;
+  pools: string[][];
+}
+
+export const fetchRoundRobins = (seasonId?: number | null): Promise<RoundRobin[]> =>
+  apiClient.get<RoundRobin[]>(API_ENDPOINTS.ROUND_ROBINS.LIST, {
+    params: { seasonId: seasonId ?? undefined }
+  });
+
+export const createRoundRobin = async (roundRobinData: CreateRoundRobinRequest): Promise<RoundRobin> => {
+  if (!roundRobinData.name.trim()) {
+    throw new ValidationError('League night name is required');
+  }
+  if (roundRobinData.pools.some(pool => pool.length < 2)) {
+    throw new ValidationError('Every pool needs at least two players');
+  }
+  return apiClient.post<RoundRobin>(API_ENDPOINTS.ROUND_ROBINS.CREATE, roundRobinData);
+};
+
+// Save a pool set's result so the standings count it, without touching the ladder
+export const savePoolResult = (roundRobin: RoundRobin, setId: string, result: SetResult): Promise<RoundRobin> =>
+  saveResult<RoundRobin>(
+    getPoolResultKey(roundRobin, setId),
+    `${API_ENDPOINTS.ROUND_ROBINS.RESULTS}/${roundRobin.id}/results/${setId}`,
+    result,
+    'The set is on the ladder, but the pool could not be updated'
+  );
+
+// Report a pool set: it is recorded on the ladder with its score, then saved
+// so the pool standings count it
+export const reportPoolSet = async (
+  roundRobin: RoundRobin,
+  setId: string,
+  result: SetResult
+): Promise<RoundRobin> => {
+  const key = getPoolResultKey(roundRobin, setId);
+  const set = schedulePools(roundRobin.pools).find(s => s.id === setId);
+  if (!set || roundRobin.results[setId] || getUnsavedResults()[key]) {
+    throw new ValidationError('This set is not waiting to be reported');
+  }
+  if (result.winnerId !== set.player1Id && result.winnerId !== set.player2Id) {
+    throw new ValidationError('The winner must be one of the two players');
+  }
+
+  const games = getScoredSetGames(set.player1Id, set.player2Id, result, roundRobin.setFormat);
+  await recordSet(set.player1Id, set.player2Id, roundRobin.setFormat, games);
+  setUnsavedResult(key, result);
+  return savePoolResult(roundRobin, setId, result);
+};
@@ -0,0 +1,200 @@
+import { Player } from '../services/playerService';
+
+export type BracketFormat = 'single' | 'double';
+
+export const BRACKET_FORMAT_LABELS: Record<BracketFormat, string> = {
+  single: 'Single elimination',
+  double: 'Double elimination',
+};
+
+export type BracketSection = 'winners' | 'losers' | 'grandFinals';
+
+// Where a player in a bracket match comes from
+type SlotSource =
+  | { type: 'seed'; seed: number }
+  | { type: 'winner'; matchId: string }
+  | { type: 'loser'; matchId: string };
+
+export interface BracketMatch {
+  // Stable across regenerations, e.g. "W1-3", "L2-1", "GF-1"; results are keyed by it
+  id: string;
+  section: BracketSection;
+  round: number;
+  sources: [SlotSource, SlotSource];
+}
+
+// waiting: a player is still to be decided; bye: only one (or no) player will ever arrive;
+// skipped: the grand-finals reset when the winners side won the first grand final
+export type BracketMatchStatus = 'waiting' | 'ready' | 'complete' | 'bye' | 'skipped';
+
+export interface BracketMatchState extends BracketMatch {
+  // Player ids; null is an empty slot (bye), undefined still to be decided
+  player1Id: string | null | undefined;
+  player2Id: string | null | undefined;
+  winnerId: string | null;
+  loserId: string | null;
+  status: BracketMatchStatus;
+}
+
+// The grand-finals reset is only played when the losers side wins the first grand final
+export const GRAND_FINAL_RESET_ID = 'GF-2';
+
+// Standard seeding, so the top seeds can only meet in the last rounds: [1, 8, 4, 5, 2, 7, 3, 6] for 8
+const seedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const length = order.length * 2;
+    order = order.flatMap(seed => [seed, length + 1 - seed]);
+  }
+  return order;
+};
+
+// Entrants in seed order: highest ELO first, ties broken by name
+export const seedEntrants = (players: Player[]): string[] =>
+  [...players]
+    .sort((a, b) => b.elo - a.elo || a.name.localeCompare(b.name))
+    .map(p => p.id.toString());
+
+const winnersRounds = (entrantCount: number) => Math.max(1, Math.ceil(Math.log2(entrantCount)));
+
+// The matches of a bracket for `entrantCount` seeds, padded with byes up to a
+// power of two. Every match only depends on matches listed before it.
+export const generateBracket = (entrantCount: number, format: BracketFormat): BracketMatch[] => {
+  const rounds = winnersRounds(entrantCount);
+  const size = 2 ** rounds;
+  const order = seedOrder(size);
+  const matches: BracketMatch[] = [];
+
+  const w = (round: number, index: number) => `W${round}-${index + 1}`;
+  const l = (round: number, index: number) => `L${round}-${index + 1}`;
+
+  for (let round = 1; round <= rounds; round++) {
+    const count = size / 2 ** round;
+    for (let i = 0; i < count; i++) {
+      matches.push({
+        id: w(round, i),
+        section: 'winners',
+        round,
+        sources: round === 1
+          ? [{ type: 'seed', seed: order[2 * i] }, { type: 'seed', seed: order[2 * i + 1] }]
+          : [{ type: 'winner', matchId: w(round - 1, 2 * i) }, { type: 'winner', matchId: w(round - 1, 2 * i + 1) }]
+      });
+    }
+  }
+
+  if (format === 'single') {
+    return matches;
+  }
+
+  // Each winners round after the first feeds its losers into every other losers round
+  for (let j = 1; j < rounds; j++) {
+    const count = size / 2 ** (j + 1);
+    const round = 2 * j - 1;
+    for (let i = 0; i < count; i++) {
+      matches.push({
+        id: l(round, i),
+        section: 'losers',
+        round,
+        sources: j === 1
+          ? [{ type: 'loser', matchId: w(1, 2 * i) }, { type: 'loser', matchId: w(1, 2 * i + 1) }]
+          : [{ type: 'winner', matchId: l(round - 1, 2 * i) }, { type: 'winner', matchId: l(round - 1, 2 * i + 1) }]
+      });
+    }
+    for (let i = 0; i < count; i++) {
+      // Dropped players come in reversed to avoid immediate rematches
+      matches.push({
+        id: l(round + 1, i),
+        section: 'losers',
+        round: round + 1,
+        sources: [{ type: 'winner', matchId: l(round, i) }, { type: 'loser', matchId: w(j + 1, count - 1 - i) }]
+      });
+    }
+  }
+
+  // With two entrants there is no losers bracket: the first loser goes straight to grand finals
+  const losersChampion: SlotSource = rounds > 1
+    ? { type: 'winner', matchId: l(2 * (rounds - 1), 0) }
+    : { type: 'loser', matchId: w(1, 0) };
+
+  matches.push(
+    {
+      id: 'GF-1',
+      section: 'grandFinals',
+      round: 1,
+      sources: [{ type: 'winner', matchId: w(rounds, 0) }, losersChampion]
+    },
+    {
+      id: GRAND_FINAL_RESET_ID,
+      section: 'grandFinals',
+      round: 2,
+      sources: [{ type: 'winner', matchId: 'GF-1' }, { type: 'loser', matchId: 'GF-1' }]
+    }
+  );
+  return matches;
+};
+
+// Work out every match's players and status from the seeded entrants and the
+// reported results (match id -> winner id). Byes advance on their own.
+export const resolveBracket = (
+  entrants: string[],
+  format: BracketFormat,
+  results: Record<string, string>
+): BracketMatchState[] => {
+  const states = new Map<string, BracketMatchState>();
+
+  const playerFrom = (source: SlotSource): string | null | undefined => {
+    if (source.type === 'seed') {
+      return entrants[source.seed - 1] ?? null;
+    }
+    const from = states.get(source.matchId) as BracketMatchState;
+    if (from.status === 'waiting' || from.status === 'ready') return undefined;
+    return source.type === 'winner' ? from.winnerId : from.loserId;
+  };
+
+  generateBracket(entrants.length, format).forEach(match => {
+    const player1Id = playerFrom(match.sources[0]);
+    const player2Id = playerFrom(match.sources[1]);
+    const state: BracketMatchState = { ...match, player1Id, player2Id, winnerId: null, loserId: null, status: 'waiting' };
+
+    const grandFinal = states.get('GF-1');
+    if (match.id === GRAND_FINAL_RESET_ID && grandFinal?.status === 'complete' && grandFinal.winnerId === grandFinal.player1Id) {
+      state.status = 'skipped';
+    } else if (player1Id === undefined || player2Id === undefined) {
+      state.status = 'waiting';
+    } else if (player1Id === null || player2Id === null) {
+      state.status = 'bye';
+      state.winnerId = player1Id ?? player2Id;
+    } else if (results[match.id] === player1Id || results[match.id] === player2Id) {
+      state.status = 'complete';
+      state.winnerId = results[match.id];
+      state.loserId = state.winnerId === player1Id ? player2Id : player1Id;
+    } else {
+      state.status = 'ready';
+    }
+
+    states.set(match.id, state);
+  });
+
+  return Array.from(states.values());
+};
+
+// The tournament winner once the deciding match is over, otherwise null
+export const getBracketChampion = (matches: BracketMatchState[]): string | null => {
+  const deciding = [...matches].reverse().find(m => m.status !== 'skipped');
+  return deciding && (deciding.status === 'complete' || deciding.status === 'bye') ? deciding.winnerId : null;
+};
+
+export const getRoundLabel = (match: BracketMatch, matches: BracketMatch[]): string => {
+  const lastRound = Math.max(...matches.filter(m => m.section === match.section).map(m => m.round));
+  const hasLosers = matches.some(m => m.section === 'losers');
+
+  if (match.section === 'grandFinals') {
+    return match.round === 1 ? 'Grand Final' : 'Grand Final Reset';
+  }
+  if (match.section === 'losers') {
+    return match.round === lastRound ? 'Losers Final' : `Losers Round ${match.round}`;
+  }
+  if (match.round === lastRound) return hasLosers ? 'Winners Final' : 'Final';
+  if (match.round === lastRound - 1) return hasLosers ? 'Winners Semifinals' : 'Semifinals';
+  return hasLosers ? `Winners Round ${match.round}` : `Round ${match.round}`;
+};
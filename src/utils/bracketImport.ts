@@ -0,0 +1,261 @@
+import { SET_FORMATS } from '../services/matchService';
+import { ImportedMatchRow } from './matchImport';
+
+export type BracketSource = 'startgg' | 'challonge';
+
+export const BRACKET_SOURCE_LABELS: Record<BracketSource, string> = {
+  startgg: 'start.gg',
+  challonge: 'Challonge',
+};
+
+export interface SkippedSet {
+  position: number;
+  description: string;
+  reason: 'DQ' | 'Bye' | 'Not played' | 'Unreadable';
+}
+
+export interface BracketImportResult {
+  source: BracketSource;
+  tournamentName?: string;
+  // Entrant names as shown in the bracket, without sponsor prefixes
+  entrants: string[];
+  // Completed sets in bracket order, ready to record
+  rows: ImportedMatchRow[];
+  skipped: SkippedSet[];
+}
+
+// Thrown when a file isn't a start.gg or Challonge bracket export
+export class BracketFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BracketFormatError';
+  }
+}
+
+// Minimal shapes of the two exports; everything is optional since exports vary
+interface StartggSlot {
+  entrant?: { id?: number | string; name?: string } | null;
+  standing?: { stats?: { score?: { value?: number | null } } } | null;
+}
+
+interface StartggSet {
+  id?: number | string;
+  identifier?: string;
+  fullRoundText?: string;
+  winnerId?: number | string | null;
+  completedAt?: number | null;
+  displayScore?: string | null;
+  slots?: StartggSlot[];
+}
+
+interface ChallongeParticipant {
+  id?: number;
+  name?: string;
+  display_name?: string;
+  group_player_ids?: number[];
+}
+
+interface ChallongeMatch {
+  id?: number;
+  identifier?: string;
+  round?: number;
+  state?: string;
+  player1_id?: number | null;
+  player2_id?: number | null;
+  winner_id?: number | null;
+  loser_id?: number | null;
+  scores_csv?: string | null;
+  forfeited?: boolean | null;
+  suggested_play_order?: number | null;
+  completed_at?: string | null;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Lists in API exports come either bare or wrapped in `nodes`
+const asList = <T>(value: unknown): T[] => {
+  if (Array.isArray(value)) return value as T[];
+  if (isObject(value) && Array.isArray(value.nodes)) return value.nodes as T[];
+  return [];
+};
+
+// "Sponsor | Tag" -> "Tag"
+export const stripSponsor = (name: string): string => {
+  const parts = name.split(' | ');
+  return parts[parts.length - 1].trim();
+};
+
+// Only keep set scores the Record Match form could have produced
+const toSetScore = (winnerScore: number, loserScore: number) => {
+  const valid = Object.values(SET_FORMATS).some(f => f.gamesToWin === winnerScore) && loserScore >= 0 && loserScore < winnerScore;
+  return valid ? { winnerScore, loserScore } : {};
+};
+
+const parseStartgg = (root: JsonObject): BracketImportResult => {
+  const data = isObject(root.data) ? root.data : root;
+  const event = (isObject(data.event) ? data.event : data) as JsonObject;
+  const tournament = isObject(event.tournament) ? event.tournament : undefined;
+
+  const sets = asList<StartggSet>(event.sets);
+  const entrants = new Set(asList<{ name?: string }>(event.entrants).map(e => stripSponsor(e.name || '')).filter(Boolean));
+  const rows: ImportedMatchRow[] = [];
+  const skipped: SkippedSet[] = [];
+
+  // Sets come back in no particular order; completion time is the closest to bracket order
+  const ordered = sets
+    .map((set, index) => ({ set, index }))
+    .sort((a, b) => (a.set.completedAt ?? Infinity) - (b.set.completedAt ?? Infinity) || a.index - b.index);
+
+  ordered.forEach(({ set }, index) => {
+    const position = index + 1;
+    const slots = set.slots || [];
+    const names = slots.map(slot => stripSponsor(slot.entrant?.name || ''));
+    names.filter(Boolean).forEach(name => entrants.add(name));
+    const description = `${set.fullRoundText || 'Set'}: ${names.map(n => n || 'bye').join(' vs ')}`;
+
+    if (slots.length < 2 || slots.some(slot => !slot.entrant)) {
+      skipped.push({ position, description, reason: 'Bye' });
+      return;
+    }
+
+    const scores = slots.map(slot => slot.standing?.stats?.score?.value ?? null);
+    if (set.displayScore === 'DQ' || scores.some(score => score !== null && score < 0)) {
+      skipped.push({ position, description, reason: 'DQ' });
+      return;
+    }
+
+    const winnerIndex = slots.findIndex(slot => slot.entrant?.id !== undefined && slot.entrant.id == set.winnerId);
+    if (set.winnerId === null || set.winnerId === undefined || winnerIndex === -1) {
+      skipped.push({ position, description, reason: 'Not played' });
+      return;
+    }
+
+    const loserIndex = 1 - winnerIndex;
+    const winnerScore = scores[winnerIndex];
+    const loserScore = scores[loserIndex];
+
+    rows.push({
+      line: position,
+      winnerName: names[winnerIndex],
+      loserName: names[loserIndex],
+      timestamp: set.completedAt ? new Date(set.completedAt * 1000).toISOString() : undefined,
+      ...(winnerScore !== null && loserScore !== null ? toSetScore(winnerScore, loserScore) : {})
+    });
+  });
+
+  return {
+    source: 'startgg',
+    tournamentName: typeof tournament?.name === 'string' ? tournament.name : typeof event.name === 'string' ? event.name : undefined,
+    entrants: Array.from(entrants),
+    rows,
+    skipped
+  };
+};
+
+const parseChallonge = (root: JsonObject): BracketImportResult => {
+  const tournament = (isObject(root.tournament) ? root.tournament : root) as JsonObject;
+  // The API wraps every record in its type, e.g. { participant: {...} }
+  const unwrap = <T>(list: unknown, key: string): T[] =>
+    (Array.isArray(list) ? list : []).map(item => (isObject(item) && isObject(item[key]) ? item[key] : item) as T);
+
+  const participants = unwrap<ChallongeParticipant>(tournament.participants, 'participant');
+  const matches = unwrap<ChallongeMatch>(tournament.matches, 'match');
+
+  // Group stage matches refer to participants through their group player ids
+  const names = new Map<number, string>();
+  participants.forEach(p => {
+    const name = stripSponsor(p.display_name || p.name || '');
+    if (p.id !== undefined) names.set(p.id, name);
+    (p.group_player_ids || []).forEach(id => names.set(id, name));
+  });
+
+  const rows: ImportedMatchRow[] = [];
+  const skipped: SkippedSet[] = [];
+
+  const ordered = matches
+    .map((match, index) => ({ match, index }))
+    .sort((a, b) => (a.match.suggested_play_order ?? Infinity) - (b.match.suggested_play_order ?? Infinity) || a.index - b.index);
+
+  ordered.forEach(({ match }, index) => {
+    const position = index + 1;
+    const player1 = match.player1_id ? names.get(match.player1_id) : undefined;
+    const player2 = match.player2_id ? names.get(match.player2_id) : undefined;
+    const round = match.round === undefined ? 'Match' : match.round > 0 ? `Winners round ${match.round}` : `Losers round ${-match.round}`;
+    const description = `${round}: ${player1 || 'bye'} vs ${player2 || 'bye'}`;
+
+    if (!match.player1_id || !match.player2_id) {
+      skipped.push({ position, description, reason: 'Bye' });
+      return;
+    }
+
+    // Challonge records a DQ as a forfeit, or as a negative score
+    const setScores = (match.scores_csv || '').match(/^(-?\d+)-(-?\d+)$/);
+    const player1Score = setScores ? parseInt(setScores[1]) : null;
+    const player2Score = setScores ? parseInt(setScores[2]) : null;
+    if (match.forfeited || (player1Score !== null && player1Score < 0) || (player2Score !== null && player2Score < 0)) {
+      skipped.push({ position, description, reason: 'DQ' });
+      return;
+    }
+
+    if (match.state !== 'complete' || !match.winner_id) {
+      skipped.push({ position, description, reason: 'Not played' });
+      return;
+    }
+
+    const player1Won = match.winner_id === match.player1_id;
+    const winnerName = player1Won ? player1 : player2;
+    const loserName = player1Won ? player2 : player1;
+    if (!winnerName || !loserName) {
+      skipped.push({ position, description, reason: 'Unreadable' });
+      return;
+    }
+
+    const winnerScore = player1Won ? player1Score : player2Score;
+    const loserScore = player1Won ? player2Score : player1Score;
+
+    rows.push({
+      line: position,
+      winnerName,
+      loserName,
+      timestamp: match.completed_at ? new Date(match.completed_at).toISOString() : undefined,
+      ...(winnerScore !== null && loserScore !== null ? toSetScore(winnerScore, loserScore) : {})
+    });
+  });
+
+  return {
+    source: 'challonge',
+    tournamentName: typeof tournament.name === 'string' ? tournament.name : undefined,
+    entrants: Array.from(new Set(names.values())).filter(Boolean),
+    rows,
+    skipped
+  };
+};
+
+// Read an exported bracket, detecting whether it came from start.gg or Challonge
+export const parseBracketExport = (text: string): BracketImportResult => {
+  let root: unknown;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    throw new BracketFormatError('The file is not valid JSON');
+  }
+  if (!isObject(root)) {
+    throw new BracketFormatError('Unrecognized bracket export');
+  }
+
+  const tournament = isObject(root.tournament) ? root.tournament : root;
+  if (Array.isArray(tournament.matches) && Array.isArray(tournament.participants)) {
+    return parseChallonge(root);
+  }
+
+  const data = isObject(root.data) ? root.data : root;
+  const event = isObject(data.event) ? data.event : data;
+  if (asList(event.sets).length > 0) {
+    return parseStartgg(root);
+  }
+
+  throw new BracketFormatError('Unrecognized bracket export: expected a start.gg event or a Challonge tournament with participants and matches');
+};
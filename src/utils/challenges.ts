@@ -0,0 +1,41 @@
+import { Player } from '../services/playerService';
+import { Challenge } from '../services/challengeService';
+import { LadderEntry } from './ladder';
+
+export const CHALLENGE_CONFIG = {
+  // A player may challenge anyone up to this many ranks above them
+  maxRanksAbove: 3,
+  // Days the two players have to play an issued challenge
+  deadlineDays: 7,
+};
+
+export const isOpenChallenge = (challenge: Challenge): boolean =>
+  challenge.status === 'pending' || challenge.status === 'accepted';
+
+export const isOverdue = (challenge: Challenge, now = new Date()): boolean =>
+  isOpenChallenge(challenge) && new Date(challenge.deadline).getTime() < now.getTime();
+
+export const getChallengeDeadline = (issuedAt = new Date()): Date =>
+  new Date(issuedAt.getTime() + CHALLENGE_CONFIG.deadlineDays * 24 * 60 * 60 * 1000);
+
+// Players `challenger` may challenge on the ladder, given entries in ELO order.
+// Unranked (provisional or inactive) players climb in from just below the last rank.
+export const getChallengeTargets = (
+  challenger: Player,
+  entries: LadderEntry[],
+  challenges: Challenge[]
+): LadderEntry[] => {
+  const ranked = entries.filter(e => e.rank !== null);
+  const challengerRank = entries.find(e => e.player.id === challenger.id)?.rank ?? ranked.length + 1;
+  const challengerId = challenger.id.toString();
+
+  return ranked.filter(({ player, rank }) => {
+    const playerId = player.id.toString();
+    const inReach = (rank as number) < challengerRank && challengerRank - (rank as number) <= CHALLENGE_CONFIG.maxRanksAbove;
+    // One open challenge per pair at a time
+    const alreadyOpen = challenges.some(c => isOpenChallenge(c) &&
+      ((c.challengerId === challengerId && c.defenderId === playerId) ||
+        (c.challengerId === playerId && c.defenderId === challengerId)));
+    return inReach && !alreadyOpen;
+  });
+};
@@ -0,0 +1,83 @@
+import { Player } from '../services/playerService';
+import { Match, MatchCharacter } from '../services/matchService';
+import { Character } from '../services/characterService';
+
+export interface CharacterStats {
+  character: Character;
+  mains: Player[];
+  averageElo: number | null;
+  topElo: number | null;
+  // Games won and played with the character; sets count per game where recorded
+  wins: number;
+  games: number;
+  winRate: number | null;
+  // Player with the most wins on the character, or its highest rated main
+  bestPlayer: Player | null;
+}
+
+interface CharacterGame {
+  winnerId: string;
+  loserId: string;
+  winnerCharacter?: MatchCharacter | null;
+  loserCharacter?: MatchCharacter | null;
+}
+
+// Flatten matches into single games, using the per-game characters of a set
+// when they were recorded and the set-level characters otherwise
+const toCharacterGames = (matches: Match[]): CharacterGame[] =>
+  matches.flatMap((match): CharacterGame[] => {
+    if (!match.games || match.games.length === 0) {
+      return [match];
+    }
+    return match.games.map(game => {
+      const setWinnerWon = game.winnerId == match.winnerId;
+      return {
+        winnerId: game.winnerId,
+        loserId: setWinnerWon ? match.loserId : match.winnerId,
+        winnerCharacter: game.winnerCharacter ?? (setWinnerWon ? match.winnerCharacter : match.loserCharacter),
+        loserCharacter: game.loserCharacter ?? (setWinnerWon ? match.loserCharacter : match.winnerCharacter),
+      };
+    });
+  });
+
+export const computeCharacterStats = (
+  characters: Character[],
+  players: Player[],
+  matches: Match[]
+): CharacterStats[] => {
+  const games = toCharacterGames(matches);
+
+  return characters.map(character => {
+    const mains = players
+      .filter(p => p.mainCharacter?.id === character.id)
+      .sort((a, b) => b.elo - a.elo);
+
+    let wins = 0;
+    let played = 0;
+    const winsByPlayer = new Map<string, number>();
+    games.forEach(game => {
+      if (game.winnerCharacter?.characterId === character.id) {
+        wins++;
+        played++;
+        winsByPlayer.set(game.winnerId.toString(), (winsByPlayer.get(game.winnerId.toString()) || 0) + 1);
+      }
+      if (game.loserCharacter?.characterId === character.id) {
+        played++;
+      }
+    });
+
+    const [topWinnerId] = Array.from(winsByPlayer.entries()).sort((a, b) => b[1] - a[1])[0] || [];
+    const bestPlayer = players.find(p => p.id.toString() === topWinnerId) || mains[0] || null;
+
+    return {
+      character,
+      mains,
+      averageElo: mains.length > 0 ? Math.round(mains.reduce((sum, p) => sum + p.elo, 0) / mains.length) : null,
+      topElo: mains.length > 0 ? mains[0].elo : null,
+      wins,
+      games: played,
+      winRate: played > 0 ? (wins / played) * 100 : null,
+      bestPlayer,
+    };
+  });
+};
@@ -0,0 +1,121 @@
+// Timezones offered in the settings and exports, besides the browser's own
+export const TIME_ZONES = [
+  'UTC',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+// Locales offered for date and time formatting, besides the browser's own
+export const LOCALES: Record<string, string> = {
+  'en-US': 'English (US)',
+  'en-GB': 'English (UK)',
+  'fr-FR': 'Français',
+  'de-DE': 'Deutsch',
+  'es-ES': 'Español',
+  'pt-BR': 'Português (Brasil)',
+  'ja-JP': '日本語',
+};
+
+export interface DateTimeSettings {
+  timeZone: string;
+  locale: string;
+}
+
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const getBrowserLocale = (): string => navigator.language || 'en-US';
+
+// Date and time of a timestamp in the viewer's zone and locale, e.g. "05/01/2024, 06:30 PM"
+export const formatDateTime = (timestamp: string, { timeZone, locale }: DateTimeSettings): string =>
+  new Intl.DateTimeFormat(locale, {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(new Date(timestamp));
+
+// Just the date of a timestamp in the viewer's zone and locale, e.g. "05/01/2024"
+export const formatDate = (
+  timestamp: string,
+  { timeZone, locale }: DateTimeSettings,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: '2-digit', day: '2-digit' }
+): string => new Intl.DateTimeFormat(locale, { timeZone, ...options }).format(new Date(timestamp));
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Largest unit first; anything under a minute is "now"
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * DAY_MS],
+  ['month', 30 * DAY_MS],
+  ['week', 7 * DAY_MS],
+  ['day', DAY_MS],
+  ['hour', HOUR_MS],
+  ['minute', MINUTE_MS],
+];
+
+// "2 hours ago", "yesterday" in the given locale
+export const formatRelativeTime = (timestamp: string, locale: string, now = Date.now()): string => {
+  const diff = new Date(timestamp).getTime() - now;
+  const format = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  const unit = RELATIVE_UNITS.find(([, ms]) => Math.abs(diff) >= ms);
+  return unit ? format.format(Math.round(diff / unit[1]), unit[0]) : format.format(0, 'second');
+};
+
+// Calendar date of an instant in `timeZone`, e.g. to find the start of "this month" there
+export const getZonedDate = (instant: Date, timeZone: string): { year: number; month: number; day: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: 'numeric', day: 'numeric' })
+    .formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(part => part.type === type)?.value || '0');
+  return { year: get('year'), month: get('month'), day: get('day') };
+};
+
+// How far `timeZone` is ahead of UTC at `instant`, in milliseconds
+const getZoneOffset = (instant: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(part => part.type === type)?.value || '0');
+
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - (instant - (instant % 1000));
+};
+
+// The instant midnight of a calendar day falls at in `timeZone`. The offset is
+// checked again at the result, since the day may start on the other side of a DST change.
+export const startOfZonedDay = (year: number, month: number, day: number, timeZone: string): Date => {
+  const midnightUtc = Date.UTC(year, month - 1, day);
+  const estimate = midnightUtc - getZoneOffset(midnightUtc, timeZone);
+  return new Date(midnightUtc - getZoneOffset(estimate, timeZone));
+};
+
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// First and last instants of a "YYYY-MM-DD" day in `timeZone`; null for anything else
+export const getZonedDayBounds = (day: string, timeZone: string): { start: Date; end: Date } | null => {
+  const parts = day.match(DAY_PATTERN);
+  if (!parts) return null;
+  const [year, month, date] = parts.slice(1).map(Number);
+
+  return {
+    start: startOfZonedDay(year, month, date, timeZone),
+    end: new Date(startOfZonedDay(year, month, date + 1, timeZone).getTime() - 1)
+  };
+};
@@ -0,0 +1,45 @@
+import { Match } from '../services/matchService';
+
+export interface EloPoint {
+  timestamp: string;
+  elo: number;
+  matchId?: number;
+}
+
+// Rebuild a player's rating curve from their matches. Each match carries the
+// ratings *after* it was played, so the starting rating is recovered from the
+// first match's ELO change.
+export const buildEloHistory = (playerId: number, matches: Match[]): EloPoint[] => {
+  const id = playerId.toString();
+  const playerMatches = matches
+    .filter(m => m.winnerId.toString() === id || m.loserId.toString() === id)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  if (playerMatches.length === 0) return [];
+
+  const points: EloPoint[] = playerMatches.map(match => ({
+    timestamp: match.timestamp,
+    elo: match.winnerId.toString() === id ? match.winnerCurrentElo : match.loserCurrentElo,
+    matchId: match.id,
+  }));
+
+  const first = playerMatches[0];
+  const startingElo = first.winnerId.toString() === id
+    ? first.winnerCurrentElo - first.eloChange
+    : first.loserCurrentElo + first.eloChange;
+
+  return [{ timestamp: first.timestamp, elo: startingElo }, ...points];
+};
+
+// Keep only the points on or after `since`, carrying over the last rating
+// before the cutoff so the curve starts where the player actually stood.
+export const sliceEloHistory = (history: EloPoint[], since: Date | null): EloPoint[] => {
+  if (!since) return history;
+
+  const cutoff = since.getTime();
+  const before = history.filter(p => new Date(p.timestamp).getTime() < cutoff);
+  const after = history.filter(p => new Date(p.timestamp).getTime() >= cutoff);
+
+  if (before.length === 0) return after;
+  return [{ timestamp: since.toISOString(), elo: before[before.length - 1].elo }, ...after];
+};
@@ -0,0 +1,109 @@
+import { Player } from '../services/playerService';
+import { Match, MatchCharacter } from '../services/matchService';
+import { Character, findCharacter } from '../services/characterService';
+import { LadderEntry } from './ladder';
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportRow = Record<string, string | number | null>;
+
+// "2024-05-01 18:30:00" in the given IANA timezone, sortable in a spreadsheet
+export const formatTimestampInZone = (timestamp: string, timeZone: string): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(timestamp));
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || '';
+
+  return `${get('year')}-${get('month')}-${get('day')} ${get('hour')}:${get('minute')}:${get('second')}`;
+};
+
+// Quote values that would otherwise break the row (RFC 4180)
+const escapeCsvValue = (value: string | number | null): string => {
+  if (value === null) return '';
+  const text = value.toString();
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: ExportRow[], columns: string[]): string =>
+  [columns, ...rows.map(row => columns.map(column => row[column] ?? null))]
+    .map(values => values.map(escapeCsvValue).join(','))
+    .join('\r\n');
+
+// Serialize the rows and hand them to the browser as a file download
+export const downloadExport = (filename: string, rows: ExportRow[], columns: string[], format: ExportFormat): void => {
+  const content = format === 'csv' ? toCsv(rows, columns) : JSON.stringify(rows, null, 2);
+  const type = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+  const url = URL.createObjectURL(new Blob([content], { type }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const LADDER_EXPORT_COLUMNS = ['rank', 'playerId', 'name', 'elo', 'matchesPlayed', 'wins', 'losses', 'winRate', 'main'];
+
+// Ladder rows in the order given, so the export follows the table's current sort.
+// Rank is the one shown on the ladder, empty for provisional and inactive players.
+export const buildLadderRows = (entries: LadderEntry[]): ExportRow[] =>
+  entries.map(({ player, rank }) => ({
+    rank,
+    playerId: player.id,
+    name: player.name,
+    elo: player.elo,
+    matchesPlayed: player.matchesPlayed,
+    wins: player.wins,
+    losses: player.losses,
+    winRate: player.matchesPlayed > 0 ? Number(((player.wins / player.matchesPlayed) * 100).toFixed(1)) : null,
+    main: player.mainCharacter?.name || null,
+  }));
+
+export const MATCH_EXPORT_COLUMNS = [
+  'matchId', 'timestamp', 'timeZone',
+  'winnerId', 'winner', 'loserId', 'loser',
+  'format', 'winnerScore', 'loserScore',
+  'eloChange', 'winnerEloBefore', 'winnerEloAfter', 'loserEloBefore', 'loserEloAfter',
+  'winnerCharacter', 'loserCharacter'
+];
+
+export const buildMatchRows = (
+  matches: Match[],
+  players: Player[],
+  characters: Character[],
+  timeZone: string
+): ExportRow[] => {
+  const playerName = (id: string) => players.find(p => p.id.toString() === id.toString())?.name || null;
+  const characterName = (selection?: MatchCharacter | null) =>
+    findCharacter(characters, selection?.characterId)?.name || null;
+
+  return matches.map(match => ({
+    matchId: match.id,
+    timestamp: formatTimestampInZone(match.timestamp, timeZone),
+    timeZone,
+    winnerId: match.winnerId,
+    winner: playerName(match.winnerId),
+    loserId: match.loserId,
+    loser: playerName(match.loserId),
+    format: match.format || null,
+    winnerScore: match.winnerScore ?? null,
+    loserScore: match.loserScore ?? null,
+    eloChange: match.eloChange,
+    // The API reports ratings after the match; recover the ones going in
+    winnerEloBefore: match.winnerCurrentElo - match.eloChange,
+    winnerEloAfter: match.winnerCurrentElo,
+    loserEloBefore: match.loserCurrentElo + match.eloChange,
+    loserEloAfter: match.loserCurrentElo,
+    winnerCharacter: characterName(match.winnerCharacter),
+    loserCharacter: characterName(match.loserCharacter),
+  }));
+};
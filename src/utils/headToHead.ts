@@ -0,0 +1,55 @@
+import { Match } from '../services/matchService';
+
+export interface HeadToHeadSummary {
+  matches: Match[];
+  wins: [number, number];
+  // Net rating each player gained from the rivalry (wins minus losses)
+  eloExchanged: [number, number];
+  longestStreak: [number, number];
+  // Current run of consecutive wins, attributed to the player holding it
+  currentStreak: { playerIndex: 0 | 1; length: number } | null;
+}
+
+// Summarize the set of matches played between two players. `matches` may
+// contain games from either direction and in any order.
+export const summarizeHeadToHead = (
+  player1Id: string,
+  player2Id: string,
+  matches: Match[]
+): HeadToHeadSummary => {
+  const ids = [player1Id, player2Id];
+  const rivalry = matches
+    .filter(m => {
+      const winner = m.winnerId.toString();
+      const loser = m.loserId.toString();
+      return ids.includes(winner) && ids.includes(loser) && winner !== loser;
+    })
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const wins: [number, number] = [0, 0];
+  const eloExchanged: [number, number] = [0, 0];
+  const longestStreak: [number, number] = [0, 0];
+  let streakHolder: 0 | 1 | null = null;
+  let streakLength = 0;
+
+  rivalry.forEach(match => {
+    const winnerIndex: 0 | 1 = match.winnerId.toString() === player1Id ? 0 : 1;
+    const loserIndex = winnerIndex === 0 ? 1 : 0;
+
+    wins[winnerIndex]++;
+    eloExchanged[winnerIndex] += match.eloChange;
+    eloExchanged[loserIndex] -= match.eloChange;
+
+    streakLength = streakHolder === winnerIndex ? streakLength + 1 : 1;
+    streakHolder = winnerIndex;
+    longestStreak[winnerIndex] = Math.max(longestStreak[winnerIndex], streakLength);
+  });
+
+  return {
+    matches: rivalry,
+    wins,
+    eloExchanged,
+    longestStreak,
+    currentStreak: streakHolder === null ? null : { playerIndex: streakHolder, length: streakLength },
+  };
+};
@@ -0,0 +1,74 @@
+import { Player } from '../services/playerService';
+import { Match } from '../services/matchService';
+import { RATING_CONFIG } from './rating';
+
+// How the ladder treats new and absent players
+export const LADDER_CONFIG = {
+  // Players with fewer matches are marked provisional
+  provisionalMatches: RATING_CONFIG.provisionalMatches,
+  // Keep provisional players off the podium; they still get a rank in the table
+  excludeProvisionalFromPodium: true,
+  // Players without a match in this many days are inactive
+  inactiveAfterDays: 30,
+  // Hide inactive players unless "show everyone" is on; otherwise only flag them
+  hideInactive: true,
+};
+
+export interface LadderEntry {
+  player: Player;
+  // Position among ranked players; null for inactive players
+  rank: number | null;
+  provisional: boolean;
+  inactive: boolean;
+}
+
+export interface Ladder {
+  // Every shown player in the given order, podium included
+  entries: LadderEntry[];
+  podium: LadderEntry[];
+  rows: LadderEntry[];
+  // Inactive players left out because "show everyone" is off
+  hiddenCount: number;
+}
+
+export const isProvisionalOnLadder = (player: Player): boolean =>
+  player.matchesPlayed < LADDER_CONFIG.provisionalMatches;
+
+// Start of the window a player must have played in to count as active
+export const getInactivityCutoff = (now = new Date()): Date =>
+  new Date(now.getTime() - LADDER_CONFIG.inactiveAfterDays * 24 * 60 * 60 * 1000);
+
+// Activity only counts matches of the current season, so until the season is as
+// old as the inactivity window nobody can be judged inactive
+export const canJudgeInactivity = (seasonStartDate: string | undefined, now = new Date()): boolean =>
+  !seasonStartDate || new Date(seasonStartDate) <= getInactivityCutoff(now);
+
+// Ids of players who played in any of the matches, e.g. those since the cutoff
+export const getPlayerIdsInMatches = (matches: Match[]): Set<string> =>
+  new Set(matches.flatMap(m => [m.winnerId.toString(), m.loserId.toString()]));
+
+// Split already sorted players into the podium and the table rows. Without
+// `recentlyActiveIds` (not loaded yet, or a past season) nobody is inactive.
+export const buildLadder = (
+  sortedPlayers: Player[],
+  recentlyActiveIds: Set<string> | null,
+  showEveryone: boolean
+): Ladder => {
+  let nextRank = 1;
+  const entries = sortedPlayers.map(player => {
+    const provisional = isProvisionalOnLadder(player);
+    const inactive = recentlyActiveIds !== null && !recentlyActiveIds.has(player.id.toString());
+    return { player, provisional, inactive, rank: inactive ? null : nextRank++ };
+  });
+
+  const shown = entries.filter(e => showEveryone || !LADDER_CONFIG.hideInactive || !e.inactive);
+  const contenders = shown.filter(e => e.rank !== null && !(e.provisional && LADDER_CONFIG.excludeProvisionalFromPodium));
+  const podium = contenders.length >= 3 ? contenders.slice(0, 3) : [];
+
+  return {
+    entries: shown,
+    podium,
+    rows: shown.filter(e => !podium.includes(e)),
+    hiddenCount: entries.length - shown.length,
+  };
+};
@@ -0,0 +1,292 @@
+import { Player } from '../services/playerService';
+import { Character } from '../services/characterService';
+import { MatchCharacter, SET_FORMATS, SetFormat, SetGame, recordMatch, recordSet } from '../services/matchService';
+import { RatedPlayer, projectMatch } from './rating';
+
+// A result read from an imported file, still referring to players by name
+export interface ImportedMatchRow {
+  // Line in a CSV file, or position in a bracket
+  line: number;
+  winnerName: string;
+  loserName: string;
+  // When the match was played; left to the server if unknown
+  timestamp?: string;
+  winnerScore?: number;
+  loserScore?: number;
+  winnerCharacter?: MatchCharacter;
+  loserCharacter?: MatchCharacter;
+}
+
+export interface MatchCsvResult {
+  rows: ImportedMatchRow[];
+  errors: string[];
+}
+
+export interface NameMatch {
+  player: Player;
+  // False when the name was only matched approximately and should be confirmed
+  exact: boolean;
+}
+
+export interface ImportPreviewRow {
+  row: ImportedMatchRow;
+  winner?: Player;
+  loser?: Player;
+  // Projected ratings going into this match, after the imported matches before it
+  winnerElo?: number;
+  loserElo?: number;
+  eloChange?: number;
+  // Why the row will be skipped
+  problem?: string;
+}
+
+export const MATCH_CSV_COLUMNS = ['winner', 'loser', 'timestamp', 'score', 'winnerCharacter', 'loserCharacter'];
+
+// Lowercase and drop spaces/punctuation so "Dark R" and "darkr" compare equal
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Split CSV text into rows of fields, honouring quoted fields (RFC 4180)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// Find the player a name in an imported file refers to. Exact matches ignore
+// case, spacing and punctuation; otherwise the closest name within a typo or
+// two is suggested, unless several players are equally close.
+export const matchPlayerName = (name: string, players: Player[]): NameMatch | null => {
+  const target = normalizeName(name);
+  if (!target) return null;
+
+  const exact = players.find(p => normalizeName(p.name) === target);
+  if (exact) return { player: exact, exact: true };
+
+  const maxDistance = Math.max(1, Math.floor(target.length / 4));
+  let best: Player | null = null;
+  let bestDistance = Infinity;
+  let ambiguous = false;
+
+  for (const player of players) {
+    const candidate = normalizeName(player.name);
+    const isPrefix = Math.min(candidate.length, target.length) >= 3 &&
+      (candidate.startsWith(target) || target.startsWith(candidate));
+    const distance = isPrefix ? 1 : levenshtein(target, candidate);
+
+    if (distance < bestDistance) {
+      best = player;
+      bestDistance = distance;
+      ambiguous = false;
+    } else if (distance === bestDistance) {
+      ambiguous = true;
+    }
+  }
+
+  return best && bestDistance <= maxDistance && !ambiguous ? { player: best, exact: false } : null;
+};
+
+const findCharacterByName = (name: string, characters: Character[]): Character | undefined =>
+  characters.find(c => normalizeName(c.name) === normalizeName(name));
+
+// Read match results from CSV text with a header row. Required columns are
+// winner, loser and timestamp; score ("2-1") and characters are optional.
+export const parseMatchCsv = (text: string, characters: Character[]): MatchCsvResult => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return { rows: [], errors: ['The file is empty'] };
+
+  const columns = header.map(normalizeName);
+  const columnIndex = (column: string) => columns.indexOf(normalizeName(column));
+  const missing = ['winner', 'loser', 'timestamp'].filter(column => columnIndex(column) === -1);
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+  }
+
+  const rows: ImportedMatchRow[] = [];
+  const errors: string[] = [];
+
+  records.forEach((record, index) => {
+    const line = index + 2;
+    const get = (column: string) => {
+      const i = columnIndex(column);
+      return i === -1 ? '' : (record[i] || '').trim();
+    };
+
+    const row: ImportedMatchRow = {
+      line,
+      winnerName: get('winner'),
+      loserName: get('loser')
+    };
+
+    if (!row.winnerName || !row.loserName) {
+      errors.push(`Line ${line}: winner and loser are required`);
+      return;
+    }
+
+    const timestamp = new Date(get('timestamp'));
+    if (!get('timestamp') || isNaN(timestamp.getTime())) {
+      errors.push(`Line ${line}: invalid timestamp "${get('timestamp')}"`);
+      return;
+    }
+    row.timestamp = timestamp.toISOString();
+
+    const score = get('score');
+    if (score) {
+      const parsed = score.match(/^(\d+)\s*[-:]\s*(\d+)$/);
+      const winnerScore = parsed ? parseInt(parsed[1]) : NaN;
+      const loserScore = parsed ? parseInt(parsed[2]) : NaN;
+      const format = (Object.keys(SET_FORMATS) as SetFormat[]).find(f => SET_FORMATS[f].gamesToWin === winnerScore);
+      if (!format || !(loserScore < winnerScore)) {
+        errors.push(`Line ${line}: invalid score "${score}"`);
+        return;
+      }
+      row.winnerScore = winnerScore;
+      row.loserScore = loserScore;
+    }
+
+    for (const side of ['winner', 'loser'] as const) {
+      const characterName = get(`${side}Character`);
+      if (!characterName) continue;
+      const character = findCharacterByName(characterName, characters);
+      if (!character) {
+        errors.push(`Line ${line}: unknown character "${characterName}"`);
+        return;
+      }
+      row[`${side}Character`] = { characterId: character.id, skin: 1 };
+    }
+
+    rows.push(row);
+  });
+
+  // Oldest first, so each match is rated on the ladder as it stood then
+  rows.sort((a, b) => new Date(a.timestamp as string).getTime() - new Date(b.timestamp as string).getTime() || a.line - b.line);
+
+  return { rows, errors };
+};
+
+// The set to record for an imported row. Only the score is known, so the
+// loser's games are placed first and the winner clinches the set at the end.
+export const getImportedSet = (
+  row: ImportedMatchRow,
+  winnerId: string,
+  loserId: string
+): { format: SetFormat; games: SetGame[] } => {
+  const winnerScore = row.winnerScore ?? 1;
+  const loserScore = row.loserScore ?? 0;
+  const format = (Object.keys(SET_FORMATS) as SetFormat[]).find(f => SET_FORMATS[f].gamesToWin === winnerScore) || 'BO1';
+  const characters = { player1: row.winnerCharacter, player2: row.loserCharacter };
+
+  return {
+    format,
+    games: [
+      ...Array.from({ length: loserScore }, () => ({ winnerId: loserId, characters })),
+      ...Array.from({ length: winnerScore }, () => ({ winnerId, characters }))
+    ]
+  };
+};
+
+// Dry run of an import: rows in the order they will be recorded, with the ELO
+// each match is projected to move once the earlier ones have been applied.
+// Rows with a name that was only matched approximately wait for confirmation.
+export const buildImportPreview = (
+  rows: ImportedMatchRow[],
+  players: Player[],
+  resolvePlayer: (name: string) => NameMatch | null | undefined
+): ImportPreviewRow[] => {
+  const ratings = new Map<number, RatedPlayer>(
+    players.map(p => [p.id, { elo: p.elo, matchesPlayed: p.matchesPlayed }])
+  );
+
+  return rows.map(row => {
+    const winnerMatch = resolvePlayer(row.winnerName);
+    const loserMatch = resolvePlayer(row.loserName);
+    const winner = winnerMatch?.player;
+    const loser = loserMatch?.player;
+
+    if (!winner || !loser) {
+      const unmatched = [!winner && row.winnerName, !loser && row.loserName].filter(Boolean);
+      return { row, winner, loser, problem: `Unmatched: ${unmatched.join(', ')}` };
+    }
+    if (!winnerMatch.exact || !loserMatch.exact) {
+      const unconfirmed = [!winnerMatch.exact && row.winnerName, !loserMatch.exact && row.loserName].filter(Boolean);
+      return { row, winner, loser, problem: `Confirm player for: ${unconfirmed.join(', ')}` };
+    }
+    if (winner.id === loser.id) {
+      return { row, winner, loser, problem: 'Winner and loser are the same player' };
+    }
+
+    const winnerRating = ratings.get(winner.id) as RatedPlayer;
+    const loserRating = ratings.get(loser.id) as RatedPlayer;
+    const projection = projectMatch(winnerRating, loserRating);
+    ratings.set(winner.id, { elo: projection.winnerNewElo, matchesPlayed: winnerRating.matchesPlayed + 1 });
+    ratings.set(loser.id, { elo: projection.loserNewElo, matchesPlayed: loserRating.matchesPlayed + 1 });
+
+    return {
+      row,
+      winner,
+      loser,
+      winnerElo: winnerRating.elo,
+      loserElo: loserRating.elo,
+      eloChange: projection.eloChange
+    };
+  });
+};
+
+// Record one imported row: a plain game, or a set when the score is known
+export const recordImportedMatch = async (row: ImportedMatchRow, winnerId: string, loserId: string): Promise<void> => {
+  if (row.winnerScore === undefined) {
+    await recordMatch(winnerId, loserId, winnerId, { player1: row.winnerCharacter, player2: row.loserCharacter }, row.timestamp);
+    return;
+  }
+
+  const { format, games } = getImportedSet(row, winnerId, loserId);
+  await recordSet(winnerId, loserId, format, games, row.timestamp);
+};
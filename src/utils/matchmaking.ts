@@ -0,0 +1,69 @@
+import { Player } from '../services/playerService';
+import { Match } from '../services/matchService';
+
+export const MATCHMAKING_CONFIG = {
+  // Rematches within this many of the latest matches are discouraged...
+  recencyWindow: 20,
+  // ...by up to this many ELO points' worth of penalty, for a rematch right away
+  recencyPenalty: 200,
+};
+
+export interface PairingSuggestion {
+  player1: Player;
+  player2: Player;
+  eloGap: number;
+  // How many matches ago the two last played each other; null if never (in the history given)
+  matchesSinceLastMeeting: number | null;
+  // Lower is better: the ELO gap plus the rematch penalty
+  score: number;
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+// Score every possible pairing of the players present, best first. A close
+// rating makes a good match, but two players who just played each other are
+// pushed down so everyone gets to face someone new.
+export const rankPairings = (players: Player[], matches: Match[]): PairingSuggestion[] => {
+  const newestFirst = [...matches].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  const lastMeeting = new Map<string, number>();
+  newestFirst.forEach((match, index) => {
+    const key = pairKey(match.winnerId.toString(), match.loserId.toString());
+    if (!lastMeeting.has(key)) lastMeeting.set(key, index);
+  });
+
+  const { recencyWindow, recencyPenalty } = MATCHMAKING_CONFIG;
+  const suggestions: PairingSuggestion[] = [];
+
+  players.forEach((player1, i) => {
+    players.slice(i + 1).forEach(player2 => {
+      const eloGap = Math.abs(player1.elo - player2.elo);
+      const matchesSinceLastMeeting = lastMeeting.get(pairKey(player1.id.toString(), player2.id.toString())) ?? null;
+      const penalty = matchesSinceLastMeeting === null
+        ? 0
+        : recencyPenalty * Math.max(0, 1 - matchesSinceLastMeeting / recencyWindow);
+
+      suggestions.push({
+        // Higher rated player first, as in the rankings
+        player1: player1.elo >= player2.elo ? player1 : player2,
+        player2: player1.elo >= player2.elo ? player2 : player1,
+        eloGap,
+        matchesSinceLastMeeting,
+        score: Math.round(eloGap + penalty),
+      });
+    });
+  });
+
+  return suggestions.sort((a, b) => a.score - b.score);
+};
+
+// A round where everyone plays at most once, built greedily from the best
+// pairings; with an odd number of players someone sits out.
+export const suggestRound = (pairings: PairingSuggestion[]): PairingSuggestion[] => {
+  const busy = new Set<number>();
+  return pairings.filter(({ player1, player2 }) => {
+    if (busy.has(player1.id) || busy.has(player2.id)) return false;
+    busy.add(player1.id);
+    busy.add(player2.id);
+    return true;
+  });
+};
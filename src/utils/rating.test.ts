@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { Match } from '../services/matchService';
+import { RATING_CONFIG, calculateEloChange, getKFactor, projectMatch } from './rating';
+
+// Hand-built matches in the shape `getRecentMatches` returns, not captures from
+// the API: ids, timestamps and player ids are placeholders and each eloChange
+// was worked out by hand with the rule rating.ts implements (K=32, or 48 while either
+// player has fewer than 10 matches). Each comes with how many matches the two
+// players had played beforehand, which decides whether the provisional K applied.
+// TODO: swap in real records from /api/matches/recent with the players'
+// matchesPlayed at the time, so this checks the server rather than the rule.
+interface RecordedMatch {
+  match: Match;
+  winnerMatchesPlayed: number;
+  loserMatchesPlayed: number;
+}
+
+const recorded = (
+  id: number,
+  winnerElo: number,
+  loserElo: number,
+  eloChange: number,
+  winnerMatchesPlayed: number,
+  loserMatchesPlayed: number
+): RecordedMatch => ({
+  match: {
+    id,
+    timestamp: `2024-05-${String(id).padStart(2, '0')}T19:30:00.000Z`,
+    winnerId: String(id * 2),
+    loserId: String(id * 2 + 1),
+    eloChange,
+    winnerCurrentElo: winnerElo + eloChange,
+    loserCurrentElo: loserElo - eloChange,
+    format: 'BO1',
+    winnerScore: 1,
+    loserScore: 0,
+  },
+  winnerMatchesPlayed,
+  loserMatchesPlayed,
+});
+
+const RECORDED_MATCHES: RecordedMatch[] = [
+  // Both players new
+  recorded(1, 1500, 1500, 24, 0, 0),
+  // Established players, evenly matched
+  recorded(2, 1540, 1540, 16, 25, 31),
+  // Favourite wins
+  recorded(3, 1612, 1488, 11, 40, 18),
+  // Upset
+  recorded(4, 1423, 1587, 23, 12, 57),
+  recorded(5, 1350, 1710, 28, 15, 80),
+  // Only the winner is provisional
+  recorded(6, 1500, 1532, 26, 3, 44),
+  // Only the loser is provisional
+  recorded(7, 1688, 1502, 12, 62, 4),
+  // Last provisional match for the winner, first established one for both
+  recorded(8, 1500, 1500, 24, RATING_CONFIG.provisionalMatches - 1, 20),
+  recorded(9, 1500, 1500, 16, RATING_CONFIG.provisionalMatches, RATING_CONFIG.provisionalMatches),
+];
+
+// Ratings before the match, recovered from the post-match ones
+const preMatchRatings = ({ match, winnerMatchesPlayed, loserMatchesPlayed }: RecordedMatch) => ({
+  winner: { elo: match.winnerCurrentElo - match.eloChange, matchesPlayed: winnerMatchesPlayed },
+  loser: { elo: match.loserCurrentElo + match.eloChange, matchesPlayed: loserMatchesPlayed },
+});
+
+describe('rating', () => {
+  it.each(RECORDED_MATCHES)('reproduces the recorded eloChange of match $match.id', (entry) => {
+    const { winner, loser } = preMatchRatings(entry);
+    const kFactor = getKFactor(winner, loser);
+
+    expect(calculateEloChange(winner.elo, loser.elo, kFactor)).toBe(entry.match.eloChange);
+    expect(projectMatch(winner, loser)).toEqual({
+      eloChange: entry.match.eloChange,
+      winnerNewElo: entry.match.winnerCurrentElo,
+      loserNewElo: entry.match.loserCurrentElo,
+    });
+  });
+
+  it('uses the provisional K-factor only while either player is provisional', () => {
+    const established = { elo: 1500, matchesPlayed: RATING_CONFIG.provisionalMatches };
+    const provisional = { elo: 1500, matchesPlayed: RATING_CONFIG.provisionalMatches - 1 };
+
+    expect(getKFactor(established, established)).toBe(RATING_CONFIG.kFactor);
+    expect(getKFactor(provisional, established)).toBe(RATING_CONFIG.provisionalKFactor);
+    expect(getKFactor(established, provisional)).toBe(RATING_CONFIG.provisionalKFactor);
+  });
+
+  it('would not reproduce the provisional matches with the regular K-factor', () => {
+    RECORDED_MATCHES
+      .filter(entry => {
+        const { winner, loser } = preMatchRatings(entry);
+        return getKFactor(winner, loser) === RATING_CONFIG.provisionalKFactor;
+      })
+      .forEach(entry => {
+        const { winner, loser } = preMatchRatings(entry);
+        expect(calculateEloChange(winner.elo, loser.elo, RATING_CONFIG.kFactor)).not.toBe(entry.match.eloChange);
+      });
+  });
+});
@@ -0,0 +1,44 @@
+// Mirrors the rating constants used by the backend when it writes `eloChange`;
+// rating.test.ts checks them against recorded matches. Keep these in sync with
+// the server, otherwise the Record Match preview drifts.
+export const RATING_CONFIG = {
+  kFactor: 32,
+  // Players still settling in move faster so they reach their real rating sooner
+  provisionalKFactor: 48,
+  provisionalMatches: 10,
+};
+
+export interface RatedPlayer {
+  elo: number;
+  matchesPlayed: number;
+}
+
+export interface MatchProjection {
+  eloChange: number;
+  winnerNewElo: number;
+  loserNewElo: number;
+}
+
+// Probability that a player rated `rating` beats one rated `opponentRating`
+export const getWinProbability = (rating: number, opponentRating: number): number =>
+  1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+
+export const isProvisional = (player: RatedPlayer): boolean =>
+  player.matchesPlayed < RATING_CONFIG.provisionalMatches;
+
+// A single K is used per match since both players move by the same amount;
+// the higher provisional K applies if either player is still provisional.
+export const getKFactor = (winner: RatedPlayer, loser: RatedPlayer): number =>
+  isProvisional(winner) || isProvisional(loser) ? RATING_CONFIG.provisionalKFactor : RATING_CONFIG.kFactor;
+
+export const calculateEloChange = (winnerElo: number, loserElo: number, kFactor: number): number =>
+  Math.round(kFactor * (1 - getWinProbability(winnerElo, loserElo)));
+
+export const projectMatch = (winner: RatedPlayer, loser: RatedPlayer): MatchProjection => {
+  const eloChange = calculateEloChange(winner.elo, loser.elo, getKFactor(winner, loser));
+  return {
+    eloChange,
+    winnerNewElo: winner.elo + eloChange,
+    loserNewElo: loser.elo - eloChange,
+  };
+};
@@ -0,0 +1,121 @@
+import { Player } from '../services/playerService';
+import { SET_FORMATS, SetFormat, SetResult } from '../services/matchService';
+
+export interface PoolSet {
+  // Stable for a given pool list, e.g. "1-4-7"; results are keyed by it
+  id: string;
+  pool: number;
+  round: number;
+  player1Id: string;
+  player2Id: string;
+}
+
+export interface PoolStanding {
+  playerId: string;
+  setWins: number;
+  setLosses: number;
+  gameWins: number;
+  gameLosses: number;
+  // What separated this player from someone on the same set record, if anything
+  tiebreak?: 'head-to-head' | 'game differential';
+}
+
+// Split players into `poolCount` pools of similar strength: a snake draft in
+// ELO order, so pool 1 gets seeds 1, 2k, 2k+1..., pool 2 gets 2, 2k-1...
+export const createPools = (players: Player[], poolCount: number): string[][] => {
+  const pools: string[][] = Array.from({ length: Math.max(1, poolCount) }, () => []);
+  [...players]
+    .sort((a, b) => b.elo - a.elo || a.name.localeCompare(b.name))
+    .forEach((player, index) => {
+      const lap = Math.floor(index / pools.length);
+      const position = index % pools.length;
+      pools[lap % 2 === 0 ? position : pools.length - 1 - position].push(player.id.toString());
+    });
+  return pools;
+};
+
+// Everyone in each pool plays everyone once, scheduled with the circle method
+// so nobody plays twice in a round; with an odd pool one player sits out each round.
+export const schedulePools = (pools: string[][]): PoolSet[] =>
+  pools.flatMap((pool, poolIndex) => {
+    const rotation: (string | null)[] = pool.length % 2 === 0 ? [...pool] : [...pool, null];
+    const sets: PoolSet[] = [];
+
+    for (let round = 1; round < rotation.length; round++) {
+      for (let i = 0; i < rotation.length / 2; i++) {
+        const player1Id = rotation[i];
+        const player2Id = rotation[rotation.length - 1 - i];
+        if (player1Id && player2Id) {
+          sets.push({ id: `${poolIndex + 1}-${player1Id}-${player2Id}`, pool: poolIndex, round, player1Id, player2Id });
+        }
+      }
+      // Keep the first player fixed and rotate the others one place
+      rotation.splice(1, 0, rotation.pop() as string | null);
+    }
+    return sets;
+  });
+
+// Pool standings: most sets won first. Players on the same set record are
+// separated by their sets against each other, then by game differential,
+// then by seed (their order in the pool).
+export const computePoolStandings = (
+  pool: string[],
+  sets: PoolSet[],
+  results: Record<string, SetResult>,
+  format: SetFormat
+): PoolStanding[] => {
+  const { gamesToWin } = SET_FORMATS[format];
+  const standings = new Map<string, PoolStanding>(
+    pool.map(playerId => [playerId, { playerId, setWins: 0, setLosses: 0, gameWins: 0, gameLosses: 0 }])
+  );
+  const played = sets.filter(set => results[set.id] && standings.has(set.player1Id) && standings.has(set.player2Id));
+
+  played.forEach(set => {
+    const { winnerId, loserScore } = results[set.id];
+    const winner = standings.get(winnerId) as PoolStanding;
+    const loser = standings.get(winnerId === set.player1Id ? set.player2Id : set.player1Id) as PoolStanding;
+    winner.setWins++;
+    winner.gameWins += gamesToWin;
+    winner.gameLosses += loserScore;
+    loser.setLosses++;
+    loser.gameWins += loserScore;
+    loser.gameLosses += gamesToWin;
+  });
+
+  // Sets won against the other players in `group`
+  const headToHeadWins = (playerId: string, group: Set<string>) =>
+    played.filter(set => {
+      const { winnerId } = results[set.id];
+      const opponent = winnerId === set.player1Id ? set.player2Id : set.player1Id;
+      return winnerId === playerId && group.has(opponent);
+    }).length;
+
+  const all = Array.from(standings.values());
+  const keys = new Map(all.map(s => {
+    const tied = new Set(all.filter(other => other.setWins === s.setWins).map(other => other.playerId));
+    return [s.playerId, { headToHead: headToHeadWins(s.playerId, tied), differential: s.gameWins - s.gameLosses }];
+  }));
+  const key = (s: PoolStanding) => keys.get(s.playerId) as { headToHead: number; differential: number };
+
+  const sorted = all.sort((a, b) =>
+    b.setWins - a.setWins ||
+    key(b).headToHead - key(a).headToHead ||
+    key(b).differential - key(a).differential ||
+    pool.indexOf(a.playerId) - pool.indexOf(b.playerId)
+  );
+
+  // Label what split each pair of neighbours on the same set record
+  sorted.forEach((standing, index) => {
+    const above = sorted[index - 1];
+    if (!above || above.setWins !== standing.setWins) return;
+    const tiebreak = key(above).headToHead !== key(standing).headToHead ? 'head-to-head'
+      : key(above).differential !== key(standing).differential ? 'game differential'
+      : undefined;
+    if (tiebreak) {
+      above.tiebreak ??= tiebreak;
+      standing.tiebreak = tiebreak;
+    }
+  });
+
+  return sorted;
+};
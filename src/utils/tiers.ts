@@ -0,0 +1,56 @@
+import { Match } from '../services/matchService';
+
+export interface Tier {
+  name: string;
+  // Lowest rating in the tier; a tier runs up to the next one's minimum
+  minElo: number;
+  // Tailwind classes for the tier's badge
+  badgeClass: string;
+}
+
+// Rank tiers from lowest to highest. Adjust the ranges here to fit the ladder;
+// new players start at 1500, in the middle of Gold.
+export const TIERS: Tier[] = [
+  { name: 'Bronze', minElo: -Infinity, badgeClass: 'bg-orange-200 text-orange-900' },
+  { name: 'Silver', minElo: 1400, badgeClass: 'bg-gray-200 text-gray-800' },
+  { name: 'Gold', minElo: 1450, badgeClass: 'bg-yellow-200 text-yellow-900' },
+  { name: 'Platinum', minElo: 1550, badgeClass: 'bg-teal-200 text-teal-900' },
+  { name: 'Diamond', minElo: 1650, badgeClass: 'bg-blue-200 text-blue-900' },
+  { name: 'Master', minElo: 1750, badgeClass: 'bg-purple-200 text-purple-900' },
+];
+
+export interface TierChange {
+  direction: 'promoted' | 'demoted';
+  from: Tier;
+  to: Tier;
+}
+
+export interface MatchTierChanges {
+  winner: TierChange | null;
+  loser: TierChange | null;
+}
+
+const getTierIndex = (elo: number): number => {
+  let index = 0;
+  TIERS.forEach((tier, i) => {
+    if (elo >= tier.minElo) index = i;
+  });
+  return index;
+};
+
+export const getTier = (elo: number): Tier => TIERS[getTierIndex(elo)];
+
+const getTierChange = (eloBefore: number, eloAfter: number): TierChange | null => {
+  const before = getTierIndex(eloBefore);
+  const after = getTierIndex(eloAfter);
+  if (before === after) return null;
+  return { direction: after > before ? 'promoted' : 'demoted', from: TIERS[before], to: TIERS[after] };
+};
+
+// Tier moves caused by a match, from the ratings before and after it. Only
+// the ratings after the match are stored, so the earlier ones are recovered
+// from `eloChange`.
+export const getMatchTierChanges = (match: Match): MatchTierChanges => ({
+  winner: getTierChange(match.winnerCurrentElo - match.eloChange, match.winnerCurrentElo),
+  loser: getTierChange(match.loserCurrentElo + match.eloChange, match.loserCurrentElo),
+});